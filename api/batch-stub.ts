@@ -0,0 +1,273 @@
+/**
+ * One Word - Batch API Stand-in
+ *
+ * Simulates the Anthropic Message Batches and OpenAI Batch endpoints so batch
+ * mode can be tried by hand without spending money. Route /api/anthropic and
+ * /api/openai here instead of to the real APIs. Any key is accepted, every
+ * batch ends BATCH_DELAY_MS after submission, and each request is answered
+ * with a word picked at random. A stimulus containing "[error]" makes that
+ * request fail, to exercise failure handling.
+ */
+
+import { serve } from 'bun';
+
+const PORT = Number(process.env.PORT ?? 3002);
+const BATCH_DELAY_MS = Number(process.env.BATCH_DELAY_MS ?? 10000);
+
+const WORDS = ['light', 'river', 'silence', 'home', 'time', 'ocean', 'dream', 'stone'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-api-key, anthropic-version, anthropic-dangerous-direct-browser-access',
+};
+
+interface StubRequest {
+  customId: string;
+  model: string;
+  prompt: string;
+}
+
+// The part of a batched request body the stand-in reads
+interface StubParams {
+  model: string;
+  messages?: Array<{ content?: unknown }>;
+}
+
+interface StubBatch {
+  id: string;
+  requests: StubRequest[];
+  submittedAt: number;
+  cancelled: boolean;
+}
+
+const anthropicBatches = new Map<string, StubBatch>();
+const openaiBatches = new Map<string, StubBatch>();
+const openaiFiles = new Map<string, string>(); // file id -> JSONL content
+
+let nextId = 1;
+const createId = (prefix: string) => `${prefix}_stub${String(nextId++).padStart(6, '0')}`;
+
+const isEnded = (batch: StubBatch) => batch.cancelled || Date.now() - batch.submittedAt >= BATCH_DELAY_MS;
+
+const randomWord = () => WORDS[Math.floor(Math.random() * WORDS.length)];
+
+const jsonLines = (rows: unknown[]) => rows.map(row => JSON.stringify(row)).join('\n');
+
+const json = (body: unknown, status = 200) => Response.json(body, { status, headers: corsHeaders });
+
+const notFound = () => json({ error: { type: 'not_found_error', message: 'Not found' } }, 404);
+
+// Last user message, so "[error]" can be spotted in the stimulus
+const promptOf = (messages: StubParams['messages'] = []) => String(messages[messages.length - 1]?.content ?? '');
+
+// ==================== Anthropic ====================
+
+function anthropicBatch(batch: StubBatch) {
+  const ended = isEnded(batch);
+  const total = batch.requests.length;
+  const errored = batch.cancelled ? 0 : batch.requests.filter(r => r.prompt.includes('[error]')).length;
+  return {
+    id: batch.id,
+    type: 'message_batch',
+    processing_status: ended ? 'ended' : 'in_progress',
+    request_counts: {
+      processing: ended ? 0 : total,
+      succeeded: ended && !batch.cancelled ? total - errored : 0,
+      errored: ended ? errored : 0,
+      canceled: batch.cancelled ? total : 0,
+      expired: 0,
+    },
+    created_at: new Date(batch.submittedAt).toISOString(),
+    results_url: ended ? `/v1/messages/batches/${batch.id}/results` : null,
+  };
+}
+
+function anthropicResult(batch: StubBatch, request: StubRequest) {
+  if (batch.cancelled) return { type: 'canceled' };
+  if (request.prompt.includes('[error]')) {
+    return { type: 'errored', error: { type: 'error', error: { type: 'api_error', message: 'Simulated failure' } } };
+  }
+  return {
+    type: 'succeeded',
+    message: {
+      id: createId('msg'),
+      type: 'message',
+      role: 'assistant',
+      model: request.model,
+      content: [{ type: 'text', text: randomWord() }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: Math.ceil(request.prompt.length / 4) + 20, output_tokens: 2 },
+    },
+  };
+}
+
+async function handleAnthropic(req: Request, path: string): Promise<Response> {
+  if (req.method === 'GET' && path === '/v1/models') {
+    return json({ data: [{ id: 'claude-haiku-4-5-20251001' }, { id: 'claude-sonnet-4-5-20250929' }] });
+  }
+
+  if (req.method === 'POST' && path === '/v1/messages/batches') {
+    const body = await req.json() as { requests: Array<{ custom_id: string; params: StubParams }> };
+    const batch: StubBatch = {
+      id: createId('msgbatch'),
+      requests: body.requests.map(r => ({
+        customId: r.custom_id,
+        model: r.params.model,
+        prompt: promptOf(r.params.messages),
+      })),
+      submittedAt: Date.now(),
+      cancelled: false,
+    };
+    anthropicBatches.set(batch.id, batch);
+    return json(anthropicBatch(batch));
+  }
+
+  const match = path.match(/^\/v1\/messages\/batches\/([^/]+)(\/results|\/cancel)?$/);
+  const batch = match ? anthropicBatches.get(match[1]) : undefined;
+  if (!batch) return notFound();
+
+  if (req.method === 'GET' && !match![2]) return json(anthropicBatch(batch));
+
+  if (req.method === 'GET' && match![2] === '/results') {
+    if (!isEnded(batch)) return json({ error: { type: 'invalid_request_error', message: 'Batch still processing' } }, 400);
+    const rows = batch.requests.map(r => ({ custom_id: r.customId, result: anthropicResult(batch, r) }));
+    return new Response(jsonLines(rows), { headers: { ...corsHeaders, 'Content-Type': 'application/x-jsonl' } });
+  }
+
+  if (req.method === 'POST' && match![2] === '/cancel') {
+    batch.cancelled = !isEnded(batch) || batch.cancelled;
+    return json(anthropicBatch(batch));
+  }
+
+  return notFound();
+}
+
+// ==================== OpenAI ====================
+
+function openaiBatch(batch: StubBatch) {
+  const ended = isEnded(batch);
+  const total = batch.requests.length;
+  const failed = batch.requests.filter(r => r.prompt.includes('[error]')).length;
+  const finished = ended && !batch.cancelled;
+  return {
+    id: batch.id,
+    object: 'batch',
+    endpoint: '/v1/chat/completions',
+    status: batch.cancelled ? 'cancelled' : ended ? 'completed' : 'in_progress',
+    output_file_id: finished ? `${batch.id}-output` : null,
+    error_file_id: finished && failed > 0 ? `${batch.id}-errors` : null,
+    request_counts: {
+      total,
+      completed: finished ? total - failed : 0,
+      failed: finished ? failed : 0,
+    },
+    created_at: Math.floor(batch.submittedAt / 1000),
+  };
+}
+
+function openaiOutput(batch: StubBatch, errors: boolean): string {
+  const rows = batch.requests
+    .filter(r => r.prompt.includes('[error]') === errors)
+    .map(r => ({
+      id: createId('batch_req'),
+      custom_id: r.customId,
+      response: errors
+        ? { status_code: 500, body: { error: { message: 'Simulated failure', type: 'server_error' } } }
+        : {
+          status_code: 200,
+          body: {
+            id: createId('chatcmpl'),
+            object: 'chat.completion',
+            model: r.model,
+            choices: [{ index: 0, message: { role: 'assistant', content: randomWord() }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: Math.ceil(r.prompt.length / 4) + 20, completion_tokens: 2 },
+          },
+        },
+      error: null,
+    }));
+  return jsonLines(rows);
+}
+
+async function handleOpenAI(req: Request, path: string): Promise<Response> {
+  if (req.method === 'GET' && path === '/v1/models') {
+    return json({ object: 'list', data: [{ id: 'gpt-4.1-mini' }, { id: 'gpt-4.1-nano' }] });
+  }
+
+  if (req.method === 'POST' && path === '/v1/files') {
+    const form = await req.formData();
+    const file = form.get('file');
+    if (!(file instanceof Blob)) {
+      return json({ error: { message: 'Missing file' } }, 400);
+    }
+    const id = createId('file');
+    openaiFiles.set(id, await file.text());
+    return json({ id, object: 'file', purpose: form.get('purpose') });
+  }
+
+  if (req.method === 'POST' && path === '/v1/batches') {
+    const body = await req.json() as { input_file_id: string };
+    const content = openaiFiles.get(body.input_file_id);
+    if (content === undefined) {
+      return json({ error: { message: `No such file: ${body.input_file_id}` } }, 404);
+    }
+    const batch: StubBatch = {
+      id: createId('batch'),
+      requests: content.split('\n').filter(line => line.trim()).map(line => {
+        const row = JSON.parse(line) as { custom_id: string; body: StubParams };
+        return { customId: row.custom_id, model: row.body.model, prompt: promptOf(row.body.messages) };
+      }),
+      submittedAt: Date.now(),
+      cancelled: false,
+    };
+    openaiBatches.set(batch.id, batch);
+    return json(openaiBatch(batch));
+  }
+
+  const fileMatch = path.match(/^\/v1\/files\/(batch_[^/]+)-(output|errors)\/content$/);
+  if (req.method === 'GET' && fileMatch) {
+    const batch = openaiBatches.get(fileMatch[1]);
+    if (!batch || !isEnded(batch)) return notFound();
+    return new Response(openaiOutput(batch, fileMatch[2] === 'errors'), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/jsonl' },
+    });
+  }
+
+  const match = path.match(/^\/v1\/batches\/([^/]+)(\/cancel)?$/);
+  const batch = match ? openaiBatches.get(match[1]) : undefined;
+  if (!batch) return notFound();
+
+  if (req.method === 'GET' && !match![2]) return json(openaiBatch(batch));
+
+  if (req.method === 'POST' && match![2] === '/cancel') {
+    batch.cancelled = !isEnded(batch) || batch.cancelled;
+    return json(openaiBatch(batch));
+  }
+
+  return notFound();
+}
+
+serve({
+  port: PORT,
+
+  async fetch(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    if (url.pathname.startsWith('/api/anthropic/')) {
+      return handleAnthropic(req, url.pathname.slice('/api/anthropic'.length));
+    }
+
+    if (url.pathname.startsWith('/api/openai/')) {
+      return handleOpenAI(req, url.pathname.slice('/api/openai'.length));
+    }
+
+    return notFound();
+  },
+});
+
+console.log(`One Word batch API stand-in running on http://localhost:${PORT} (batches end after ${BATCH_DELAY_MS}ms)`);
@@ -5,14 +5,30 @@ import { KeysSection } from '@/sections/keys/components/KeysSection';
 import { ExperimentSection } from '@/sections/experiment/components/ExperimentSection';
 import { HelpModal } from '@/components/HelpModal';
 import { storage } from '@/lib/storage';
-import { providers, PROVIDER_DATA } from '@/lib/providers';
-import { experimentRunner } from '@/lib/runner';
+import { providers, CUSTOM_ENDPOINT_PREFIX } from '@/lib/providers';
+import { experimentRunner } from '@/lib/runner-client';
+import { calibrate, estimateCallTokens } from '@/lib/tokens';
+import { DEFAULT_PROMPT, promptFor } from '@/lib/prompts';
+import { builderStimuli, stimulusFor } from '@/lib/stimuli';
+import { callText, contextFor } from '@/lib/contexts';
 import type {
+  APIKey,
   ConfiguredKey,
+  CustomEndpoint,
   Experiment,
+  ExperimentConfig,
+  ExperimentResults,
   RunProgress,
   ExperimentBuilderState,
   KeyValidationResult,
+  ModelCatalog,
+  NormalizationPipeline,
+  PricingCatalog,
+  PromptTemplate,
+  RateLimitSettings,
+  TokenCalibration,
+  UserSettings,
+  VaultState,
 } from '@/lib/types';
 
 interface AppProps {
@@ -21,6 +37,21 @@ interface AppProps {
 
 const createExperimentId = (): string => `exp-${crypto.randomUUID()}`;
 
+// Fold words into the live tallies, so each sample is one update rather than a
+// recount. Sampled words already went through the experiment's pipeline, so
+// they are counted as they are, the same way the final results count them.
+const tallyWords = (counts: Record<string, number>, words: string[]): Record<string, number> => {
+  const next = { ...counts };
+  words.forEach(word => {
+    next[word] = (next[word] || 0) + 1;
+  });
+  return next;
+};
+
+// Adaptive stopping thresholds (see AdaptiveSampling)
+const ADAPTIVE_ENTROPY_TOLERANCE = 0.05;
+const ADAPTIVE_UNSEEN_MASS_THRESHOLD = 0.1;
+
 const validateProviderKey = async (
   providerId: string,
   key: string
@@ -35,6 +66,20 @@ const validateProviderKey = async (
   }
 };
 
+// Check a key against its provider and remember the outcome
+const probeKey = async (providerId: string, stored: APIKey | null): Promise<KeyValidationResult> => {
+  const validation = await validateProviderKey(providerId, stored?.key ?? '');
+  if (validation.models) {
+    storage.setDiscoveredModels(providerId, validation.models.map(m => m.id));
+  }
+  storage.setKeyValidation(stored?.id ?? providerId, {
+    isValid: validation.isValid,
+    error: validation.error,
+    validatedAt: new Date().toISOString(),
+  });
+  return validation;
+};
+
 export function App({ section }: AppProps) {
   const navigate = useNavigate();
 
@@ -44,43 +89,119 @@ export function App({ section }: AppProps) {
   const [apiStatus, setApiStatus] = useState<'connected' | 'error' | 'unknown'>('unknown');
   const [currentExperiment, setCurrentExperiment] = useState<Experiment | null>(null);
   const [runProgress, setRunProgress] = useState<RunProgress | null>(null);
+  const [liveWordCounts, setLiveWordCounts] = useState<Record<string, number>>({});
+  const [interruptedExperiments, setInterruptedExperiments] = useState<Experiment[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(() => storage.getSettings());
+  const [tokenCalibration, setTokenCalibration] = useState<Record<string, TokenCalibration>>(
+    () => storage.getTokenCalibration()
+  );
+  const [customEndpoints, setCustomEndpoints] = useState<CustomEndpoint[]>(
+    () => storage.getCustomEndpoints()
+  );
+  const [modelCatalog, setModelCatalog] = useState<ModelCatalog>(() => storage.getModelCatalog());
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(() => storage.getPromptTemplates());
+  const [vaultState, setVaultState] = useState<VaultState>(() => storage.getVaultState());
   const [showHelp, setShowHelp] = useState(false);
 
-  const loadAndValidateKeys = async () => {
-    const apiKeys = storage.getAPIKeys();
+  /**
+   * List the stored keys with their last known validation. Only keys that were
+   * never checked, or whose provider is named in revalidate, are probed.
+   */
+  const loadKeys = async (revalidate: string[] | 'all' = []) => {
+    const storedKeys = storage.getStoredKeys();
+    const spend = await storage.getSpendByKey(storedKeys.map(k => k.id));
     const configured: ConfiguredKey[] = [];
 
-    for (const provider of PROVIDER_DATA) {
-      const key = apiKeys[provider.id];
-      if (!key) continue;
-
-      const validation = await validateProviderKey(provider.id, key);
-      configured.push({
-        providerId: provider.id,
-        keyPreview: `${key.slice(0, 8)}...${key.slice(-4)}`,
-        isValid: validation.isValid,
-        lastValidated: new Date().toISOString(),
-        addedAt: new Date().toISOString(), // TODO: Store actual add time
-        validationError: validation.isValid
-          ? undefined
-          : validation.error || 'Validation failed',
-      });
+    for (const provider of providers.getProviderData()) {
+      const keys: Array<APIKey | null> = storedKeys.filter(k => k.providerId === provider.id);
+      // A keyless endpoint still gets a row, so its models can be used
+      if (keys.length === 0 && !providers.requiresKey(provider.id)) keys.push(null);
+      const defaultKeyId = storage.getDefaultKeyId(provider.id);
+
+      for (const stored of keys) {
+        const key = stored?.key ?? '';
+        const cached = storage.getKeyValidations()[stored?.id ?? provider.id];
+        if (!cached || revalidate === 'all' || revalidate.includes(provider.id)) {
+          await probeKey(provider.id, stored);
+        }
+        const validation = storage.getKeyValidations()[stored?.id ?? provider.id];
+        configured.push({
+          keyId: stored?.id ?? null,
+          providerId: provider.id,
+          name: stored?.name ?? 'No key',
+          keyPreview: key ? `${key.slice(0, 8)}...${key.slice(-4)}` : 'No key',
+          isDefault: !stored || stored.id === defaultKeyId,
+          isValid: validation.isValid,
+          lastValidated: validation.validatedAt,
+          addedAt: stored?.addedAt,
+          validationError: validation.isValid
+            ? validation.error
+            : validation.error || 'Validation failed',
+          spend: stored ? spend[stored.id] ?? 0 : 0,
+        });
+      }
     }
 
     setConfiguredKeys(configured);
+    setModelCatalog(storage.getModelCatalog());
 
     // Update API status
     const hasValidKeys = configured.some(key => key.isValid);
     setApiStatus(hasValidKeys ? 'connected' : configured.length > 0 ? 'error' : 'unknown');
   };
 
+  // Batch jobs keep going at the provider while the page is closed, so their
+  // experiments pick polling back up without waiting to be resumed. Resuming
+  // restarts the whole run, so one with interactive models waits for the user
+  // to confirm it instead.
+  const resumePendingBatches = async () => {
+    const runningIds = experimentRunner.getRunningExperiments();
+    const batchOnly = (experiment: Experiment) => experiment.selectedModels.every(modelId => {
+      const model = providers.findModel(modelId);
+      return model !== undefined && providers.supportsBatch(model.providerId);
+    });
+
+    for (const experiment of storage.getInterruptedExperiments()) {
+      if (runningIds.includes(experiment.id)) continue;
+      if (!experiment.batches?.some(job => job.status === 'submitted')) continue;
+      if (!batchOnly(experiment)) continue;
+      try {
+        await experimentRunner.resume(experiment, storage.getAPIKeys(experiment.keyIds));
+        setCurrentExperiment({ ...experiment, status: 'running' });
+        setRunProgress(experimentRunner.getProgress(experiment.id));
+      } catch (error) {
+        console.error('Failed to resume batch experiment:', error);
+      }
+    }
+    setInterruptedExperiments(storage.getInterruptedExperiments());
+  };
+
   const initializeApp = async () => {
     try {
       // Initialize storage
       await storage.init();
+      setInterruptedExperiments(storage.getInterruptedExperiments());
+
+      // Re-attach to a run that kept going in the worker while another section was open
+      const [runningId] = experimentRunner.getRunningExperiments();
+      const running = runningId ? await storage.getExperiment(runningId) : null;
+      if (running) {
+        const progress = experimentRunner.getProgress(running.id);
+        setCurrentExperiment({ ...running, status: 'running' });
+        setRunProgress(progress);
+        setLiveWordCounts(tallyWords({}, progress?.recentWords ?? []));
+      }
+
+      // Custom endpoints must be registered before their keys are listed
+      providers.setCustomEndpoints(customEndpoints);
+      providers.setModelCatalog(modelCatalog);
 
-      // Load and validate API keys
-      await loadAndValidateKeys();
+      // Load API keys. A locked vault has none to offer until it is
+      // unlocked, which repeats both steps.
+      await loadKeys();
+      if (storage.getVaultState() !== 'locked') {
+        await resumePendingBatches();
+      }
 
       setIsInitialized(true);
     } catch (error) {
@@ -95,74 +216,171 @@ export function App({ section }: AppProps) {
     initializeApp();
   }, []);
 
-  // Poll for experiment progress
-  useEffect(() => {
-    if (!currentExperiment || currentExperiment.status !== 'running') {
-      setRunProgress(null);
+  // Keys come and go with the vault; locking also happens on its own timer
+  useEffect(() => storage.subscribeVault(async (state) => {
+    setVaultState(state);
+    if (state === 'locked') {
+      setConfiguredKeys([]);
+      setApiStatus('unknown');
       return;
     }
+    await loadKeys();
+    if (state === 'unlocked') await resumePendingBatches();
+  }), []);
+
+  // Any interaction counts as activity for the vault's idle auto-lock
+  useEffect(() => {
+    const touch = () => storage.touchVault();
+    window.addEventListener('pointerdown', touch);
+    window.addEventListener('keydown', touch);
+    return () => {
+      window.removeEventListener('pointerdown', touch);
+      window.removeEventListener('keydown', touch);
+    };
+  }, []);
 
-    const interval = setInterval(() => {
-      const progress = experimentRunner.getProgress(currentExperiment.id);
-      setRunProgress(progress);
-    }, 1000);
+  // Fold a finished run's reported token usage into the per-provider calibration
+  const updateTokenCalibration = async (experiment: Experiment) => {
+    try {
+      const samples = await storage.getSamplesByExperiment(experiment.id);
+      const calibration = storage.getTokenCalibration();
+
+      for (const provider of providers.getProviderData()) {
+        const modelIds = new Set(provider.models.map(m => m.id));
+        const updated = calibrate(
+          calibration[provider.id],
+          s => callText(promptFor(experiment, s), stimulusFor(experiment, s), contextFor(experiment, s)),
+          samples.filter(s => modelIds.has(s.modelId))
+        );
+        if (updated) calibration[provider.id] = updated;
+      }
 
-    return () => clearInterval(interval);
+      storage.setTokenCalibration(calibration);
+      setTokenCalibration(calibration);
+    } catch (error) {
+      console.error('Failed to update token calibration:', error);
+    }
+  };
+
+  // Follow the running experiment through runner events
+  useEffect(() => {
+    if (!currentExperiment || currentExperiment.status !== 'running') return;
+    const experimentId = currentExperiment.id;
+
+    return experimentRunner.subscribe(event => {
+      if (event.experimentId !== experimentId) return;
+
+      switch (event.type) {
+        case 'sample-completed':
+          setLiveWordCounts(prev => tallyWords(prev, [event.sample.word]));
+          setRunProgress(event.progress);
+          break;
+        case 'sample-failed':
+        case 'model-started':
+        case 'config-started':
+          setRunProgress(event.progress);
+          break;
+        case 'completed':
+        case 'failed':
+        case 'cancelled':
+          setRunProgress(null);
+          setCurrentExperiment(event.experiment);
+          updateTokenCalibration(event.experiment);
+          break;
+      }
+    });
   }, [currentExperiment?.id, currentExperiment?.status]);
 
+  const supportsProbabilities = (modelId: string): boolean => {
+    const model = providers.findModel(modelId);
+    return model ? providers.supportsProbabilities(model.providerId, modelId) : false;
+  };
+
+  const supportsBatch = (modelId: string): boolean => {
+    const model = providers.findModel(modelId);
+    return model ? providers.supportsBatch(model.providerId) : false;
+  };
+
+  // Batch pricing only applies to models that will actually run as a batch
+  const estimateCallCost = (modelId: string, text: string, batch = false): number => {
+    const model = providers.findModel(modelId);
+    if (!model) return 0;
+
+    return providers.estimateCost({
+      model: modelId,
+      ...estimateCallTokens(text, tokenCalibration[model.providerId]),
+      batch: batch && providers.supportsBatch(model.providerId),
+    });
+  };
+
   // Navigation handler
   const handleNavigate = (targetSection: 'keys' | 'experiment') => {
     navigate(`/${targetSection}`);
   };
 
   // Keys section handlers
-  const handleAddKey = async (providerId: string, key: string): Promise<boolean> => {
+  const handleAddKey = async (providerId: string, key: string, name: string): Promise<boolean> => {
     try {
       // Validate the key first
       const validation = await validateProviderKey(providerId, key);
 
       if (validation.isValid) {
-        // Save to storage
-        storage.setAPIKey(providerId, key);
+        // Save to storage, keeping this check so the key isn't probed again
+        const stored = await storage.addKey(providerId, name, key);
+        storage.setKeyValidation(stored.id, {
+          isValid: validation.isValid,
+          error: validation.error,
+          validatedAt: new Date().toISOString(),
+        });
+        if (validation.models) {
+          storage.setDiscoveredModels(providerId, validation.models.map(m => m.id));
+        }
 
         // Update state
-        await loadAndValidateKeys();
+        await loadKeys();
 
         return true;
       } else {
         return false;
       }
     } catch (error) {
+      // The modal shows why, e.g. that the vault needs a passphrase first
       console.error('Failed to add key:', error);
-      return false;
+      throw error;
     }
   };
 
-  const handleRemoveKey = (providerId: string): void => {
-    storage.removeAPIKey(providerId);
-    loadAndValidateKeys();
+  const handleRemoveKey = async (keyId: string): Promise<void> => {
+    try {
+      await storage.removeKey(keyId);
+      await loadKeys();
+    } catch (error) {
+      console.error('Failed to remove key:', error);
+    }
   };
 
-  const handleValidateKey = async (providerId: string): Promise<boolean> => {
-    const apiKeys = storage.getAPIKeys();
-    const key = apiKeys[providerId];
+  const handleValidateKey = async (keyId: string): Promise<boolean> => {
+    const stored = storage.getStoredKeys().find(k => k.id === keyId);
 
-    if (!key) {
+    if (!stored) {
       return false;
     }
 
     try {
-      const validation = await validateProviderKey(providerId, key);
+      const validation = await probeKey(stored.providerId, stored);
+      if (validation.models) {
+        setModelCatalog(storage.getModelCatalog());
+      }
 
       // Update the specific key's validation status
       setConfiguredKeys(prev => prev.map(configuredKey =>
-        configuredKey.providerId === providerId
+        configuredKey.keyId === keyId
           ? {
             ...configuredKey,
             isValid: validation.isValid,
             lastValidated: new Date().toISOString(),
             validationError: validation.isValid
-              ? undefined
+              ? validation.error
               : validation.error || 'Validation failed',
           }
           : configuredKey
@@ -175,8 +393,17 @@ export function App({ section }: AppProps) {
     }
   };
 
+  const handleSetDefaultKey = (providerId: string, keyId: string): void => {
+    storage.setDefaultKey(providerId, keyId);
+    setConfiguredKeys(prev => prev.map(configuredKey =>
+      configuredKey.providerId === providerId
+        ? { ...configuredKey, isDefault: configuredKey.keyId === keyId }
+        : configuredKey
+    ));
+  };
+
   const handleValidateAllKeys = async (): Promise<void> => {
-    await loadAndValidateKeys();
+    await loadKeys('all');
   };
 
   const handleValidateNewKey = async (
@@ -184,10 +411,63 @@ export function App({ section }: AppProps) {
     key: string
   ): Promise<KeyValidationResult> => validateProviderKey(providerId, key);
 
+  const handleSaveEndpoint = async (endpoint: CustomEndpoint, key: string): Promise<void> => {
+    storage.saveCustomEndpoint(endpoint);
+    // An empty key keeps whatever was stored before
+    if (key) await storage.setAPIKey(endpoint.id, key);
+
+    const endpoints = storage.getCustomEndpoints();
+    providers.setCustomEndpoints(endpoints);
+    setCustomEndpoints(endpoints);
+    await loadKeys([endpoint.id]);
+  };
+
+  const handleRemoveEndpoint = async (endpointId: string): Promise<void> => {
+    await storage.removeCustomEndpoint(endpointId);
+
+    const endpoints = storage.getCustomEndpoints();
+    providers.setCustomEndpoints(endpoints);
+    setCustomEndpoints(endpoints);
+    await loadKeys();
+  };
+
+  // Vault handlers. State changes arrive through the vault subscription.
+  const handleCreateVault = (passphrase: string): Promise<void> => storage.createVault(passphrase);
+
+  const handleUnlockVault = (passphrase: string): Promise<void> => storage.unlockVault(passphrase);
+
+  const handleLockVault = (): void => storage.lockVault();
+
+  const handleChangePassphrase = (current: string, next: string): Promise<void> =>
+    storage.changeVaultPassphrase(current, next);
+
+  const handleResetVault = (): void => storage.resetVault();
+
+  const handleSavePricing = (overrides: PricingCatalog): void => {
+    storage.setPricingOverrides(overrides);
+
+    const catalog = storage.getModelCatalog();
+    providers.setModelCatalog(catalog);
+    setModelCatalog(catalog);
+  };
+
+  // Pin each provider the experiment uses to a key, so its samples are billed
+  // to the same key even if the default changes before it is resumed
+  const resolveKeyIds = (builderState: ExperimentBuilderState): Record<string, string> => {
+    const keyIds: Record<string, string> = {};
+    for (const modelId of builderState.selectedModels) {
+      const providerId = providers.findModel(modelId)?.providerId;
+      if (!providerId || keyIds[providerId]) continue;
+      const keyId = builderState.keyIds[providerId] ?? storage.getDefaultKeyId(providerId);
+      if (keyId) keyIds[providerId] = keyId;
+    }
+    return keyIds;
+  };
+
   // Experiment section handlers
   const handleCreateExperiment = async (builderState: ExperimentBuilderState): Promise<Experiment> => {
     // Generate experiment configurations
-    const configs = [];
+    const configs: ExperimentConfig[] = [];
 
     if (builderState.temperatureMode === 'single' && builderState.topKMode === 'single') {
       configs.push({
@@ -211,34 +491,80 @@ export function App({ section }: AppProps) {
       }
     }
 
-    const totalCalls = builderState.selectedModels.length * configs.length * builderState.samplesPerConfig;
+    // Every parameter combination runs once per prompt variant
+    const templates = storage.getPromptTemplates();
+    const prompts = builderState.promptIds
+      .map(id => templates.find(t => t.id === id))
+      .filter((t): t is PromptTemplate => !!t);
+    if (prompts.length === 0) prompts.push(DEFAULT_PROMPT);
+    const promptConfigs = prompts.flatMap(prompt => configs.map(config => ({ ...config, promptId: prompt.id })));
+
+    // ...and once per stimulus when there are several
+    const stimuli = builderStimuli(builderState);
+    const isMultiStimulus = stimuli.length > 1;
+    const stimulusConfigs = isMultiStimulus
+      ? stimuli.flatMap(stimulus => promptConfigs.map(config => ({ ...config, stimulus })))
+      : promptConfigs;
+
+    // ...and once per context variant, if any were given
+    const contexts = builderState.contexts;
+    const gridConfigs = contexts.length > 0
+      ? contexts.flatMap(context => stimulusConfigs.map(config => ({ ...config, contextId: context.id })))
+      : stimulusConfigs;
+
+    const totalCalls = builderState.selectedModels.length * gridConfigs.length * builderState.samplesPerConfig;
+
+    // Adaptive cells stop somewhere between two batches and samplesPerConfig.
+    // A provider batch is submitted whole, so batch mode always samples fixed.
+    const isBatch = builderState.executionMode === 'batch';
+    const isAdaptive = builderState.samplingMode === 'adaptive' && !isBatch;
+    const minSamplesPerConfig = isAdaptive
+      ? Math.min(builderState.adaptiveBatchSize * 2, builderState.samplesPerConfig)
+      : builderState.samplesPerConfig;
 
     // Estimate cost
     let estimatedCost = 0;
+    let estimatedCostMin = 0;
     for (const modelId of builderState.selectedModels) {
-      const model = PROVIDER_DATA.flatMap(p => p.models).find(m => m.id === modelId);
-      if (model) {
-        const inputTokens = Math.ceil(builderState.stimulus.length / 4); // Rough estimate
-        const outputTokens = 1; // One word
-        const callsPerModel = configs.length * builderState.samplesPerConfig;
-
-        const costPerCall = providers.estimateCost(model.providerId, {
-          model: modelId,
-          inputTokens,
-          outputTokens,
-        });
-
-        estimatedCost += costPerCall * callsPerModel;
+      for (const prompt of prompts) {
+        for (const stimulus of stimuli) {
+          for (const context of contexts.length > 0 ? contexts : [undefined]) {
+            const costPerCall = estimateCallCost(modelId, callText(prompt, stimulus, context), isBatch);
+            estimatedCost += costPerCall * configs.length * builderState.samplesPerConfig;
+            estimatedCostMin += costPerCall * configs.length * minSamplesPerConfig;
+          }
+        }
       }
     }
 
     const experiment: Experiment = {
       id: createExperimentId(),
-      stimulus: builderState.stimulus,
+      // Never the raw template: a template with one value per slot still expands
+      stimulus: builderState.stimulusMode === 'single' ? builderState.stimulus : stimuli[0],
+      stimuli: isMultiStimulus ? stimuli : undefined,
+      stimulusTemplate: builderState.stimulusMode === 'template' && isMultiStimulus
+        ? { template: builderState.stimulus, values: builderState.templateValues }
+        : undefined,
       selectedModels: builderState.selectedModels,
-      configs,
+      configs: gridConfigs,
       samplesPerConfig: builderState.samplesPerConfig,
+      adaptive: isAdaptive
+        ? {
+          batchSize: builderState.adaptiveBatchSize,
+          entropyTolerance: ADAPTIVE_ENTROPY_TOLERANCE,
+          unseenMassThreshold: ADAPTIVE_UNSEEN_MASS_THRESHOLD,
+        }
+        : undefined,
+      normalization: builderState.normalization,
+      probabilityMode: builderState.probabilityMode
+        && builderState.selectedModels.some(supportsProbabilities),
+      executionMode: isBatch && builderState.selectedModels.some(supportsBatch) ? 'batch' : 'interactive',
+      keyIds: resolveKeyIds(builderState),
+      prompts,
+      contexts: contexts.length > 0 ? contexts : undefined,
       estimatedCost,
+      estimatedCostMin: isAdaptive ? estimatedCostMin : undefined,
+      budget: builderState.budget ?? undefined,
       totalCalls,
       status: 'pending',
       createdAt: new Date().toISOString(),
@@ -251,7 +577,7 @@ export function App({ section }: AppProps) {
   };
 
   const handleRunExperiment = async (experiment: Experiment): Promise<void> => {
-    const apiKeys = storage.getAPIKeys();
+    const apiKeys = storage.getAPIKeys(experiment.keyIds);
     console.log('[DEBUG] Starting experiment');
     console.log('[DEBUG] API keys available for:', Object.keys(apiKeys));
     console.log('[DEBUG] Selected models:', experiment.selectedModels);
@@ -259,6 +585,8 @@ export function App({ section }: AppProps) {
     try {
       await experimentRunner.start(experiment, apiKeys);
       console.log('[DEBUG] Experiment started successfully');
+      setLiveWordCounts({});
+      setRunProgress(experimentRunner.getProgress(experiment.id));
       setCurrentExperiment({ ...experiment, status: 'running' });
     } catch (error) {
       console.error('[DEBUG] Failed to start experiment:', error);
@@ -268,10 +596,69 @@ export function App({ section }: AppProps) {
   const handleStopExperiment = async (): Promise<void> => {
     if (currentExperiment) {
       await experimentRunner.abort(currentExperiment.id);
+      setRunProgress(null);
       setCurrentExperiment({ ...currentExperiment, status: 'cancelled' });
     }
   };
 
+  const handleResumeExperiment = async (experiment: Experiment): Promise<void> => {
+    const apiKeys = storage.getAPIKeys(experiment.keyIds);
+
+    try {
+      await experimentRunner.resume(experiment, apiKeys);
+      setLiveWordCounts({});
+      setRunProgress(experimentRunner.getProgress(experiment.id));
+      setCurrentExperiment({ ...experiment, status: 'running' });
+      setInterruptedExperiments(storage.getInterruptedExperiments());
+    } catch (error) {
+      console.error('Failed to resume experiment:', error);
+    }
+  };
+
+  const handleDiscardExperiment = async (experiment: Experiment): Promise<void> => {
+    try {
+      await experimentRunner.discardInterrupted(experiment);
+      setInterruptedExperiments(storage.getInterruptedExperiments());
+    } catch (error) {
+      console.error('Failed to discard experiment:', error);
+    }
+  };
+
+  const handleRenormalizeResults = async (
+    experiment: Experiment,
+    pipeline: NormalizationPipeline
+  ): Promise<ExperimentResults | null> => {
+    try {
+      await experimentRunner.renormalize(experiment, pipeline);
+      return await storage.getResults(experiment.id);
+    } catch (error) {
+      console.error('Failed to regenerate results:', error);
+      return null;
+    }
+  };
+
+  const handleSavePromptTemplate = (template: PromptTemplate): void => {
+    storage.savePromptTemplate(template);
+    setPromptTemplates(storage.getPromptTemplates());
+  };
+
+  const handleDeletePromptTemplate = (id: string): void => {
+    storage.deletePromptTemplate(id);
+    setPromptTemplates(storage.getPromptTemplates());
+  };
+
+  const handleSettingsChange = (next: UserSettings): void => {
+    storage.setSettings(next);
+    setSettings(next);
+  };
+
+  const handleRateLimitsChange = (providerId: string, limits: RateLimitSettings): void => {
+    handleSettingsChange({
+      ...settings,
+      rateLimits: { ...settings.rateLimits, [providerId]: limits },
+    });
+  };
+
   const handleHelpClick = (): void => {
     setShowHelp(true);
   };
@@ -310,25 +697,56 @@ export function App({ section }: AppProps) {
       >
         {section === 'keys' && (
           <KeysSection
-            providers={PROVIDER_DATA}
+            providers={providers.getProviderData().filter(p => !p.id.startsWith(CUSTOM_ENDPOINT_PREFIX))}
             configuredKeys={configuredKeys}
             onAddKey={handleAddKey}
             onRemoveKey={handleRemoveKey}
             onValidateKey={handleValidateKey}
+            onSetDefaultKey={handleSetDefaultKey}
             onValidateAll={handleValidateAllKeys}
             onValidateNewKey={handleValidateNewKey}
+            customEndpoints={customEndpoints}
+            onSaveEndpoint={handleSaveEndpoint}
+            onRemoveEndpoint={handleRemoveEndpoint}
+            models={providers.getProviderData().flatMap(p => p.models)}
+            pricingOverrides={modelCatalog.pricingOverrides}
+            onSavePricing={handleSavePricing}
+            rateLimits={settings.rateLimits ?? {}}
+            onRateLimitsChange={handleRateLimitsChange}
+            vaultState={vaultState}
+            autoLockMinutes={settings.vaultAutoLockMinutes}
+            onAutoLockMinutesChange={(minutes) => handleSettingsChange({ ...settings, vaultAutoLockMinutes: minutes })}
+            onCreateVault={handleCreateVault}
+            onUnlockVault={handleUnlockVault}
+            onLockVault={handleLockVault}
+            onChangePassphrase={handleChangePassphrase}
+            onResetVault={handleResetVault}
           />
         )}
 
         {section === 'experiment' && (
           <ExperimentSection
-            providers={PROVIDER_DATA}
+            providers={providers.getProviderData()}
             configuredKeys={configuredKeys}
             currentExperiment={currentExperiment}
             runProgress={runProgress}
+            liveWordCounts={liveWordCounts}
+            interruptedExperiments={interruptedExperiments}
+            settings={settings}
+            onSettingsChange={handleSettingsChange}
+            estimateCallCost={estimateCallCost}
+            supportsProbabilities={supportsProbabilities}
+            supportsBatch={supportsBatch}
+            promptTemplates={promptTemplates}
+            onSavePromptTemplate={handleSavePromptTemplate}
+            onDeletePromptTemplate={handleDeletePromptTemplate}
+            vaultLocked={vaultState === 'locked'}
             onCreateExperiment={handleCreateExperiment}
             onRunExperiment={handleRunExperiment}
             onStopExperiment={handleStopExperiment}
+            onResumeExperiment={handleResumeExperiment}
+            onDiscardExperiment={handleDiscardExperiment}
+            onRenormalizeResults={handleRenormalizeResults}
           />
         )}
       </AppShell>
@@ -133,7 +133,8 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
                 <span className="font-mono" style={{ color: 'var(--brass)' }}>Entropy</span>
                 <p style={{ color: 'var(--text-tertiary)' }} className="mt-1">
                   Measures diversity in bits. Higher entropy = more varied responses across samples.
-                  A model that always says the same word has zero entropy.
+                  A model that always says the same word has zero entropy. Shown bias-corrected
+                  (Chao–Shen) with a 95% bootstrap interval, since small samples miss rare words.
                 </p>
               </div>
             </div>
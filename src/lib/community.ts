@@ -6,6 +6,7 @@
  */
 
 import type { ExperimentResults, ExperimentBuilderState, Experiment } from './types';
+import { DEFAULT_PROMPT } from './prompts';
 
 const API_BASE = '/api/community';
 
@@ -85,11 +86,30 @@ export async function submitToCommunity(
   }
 }
 
+// Failure causes only ("model:kind:count") - raw error messages may echo request details
+function summarizeFailures(results: ExperimentResults): string[] {
+  return Object.entries(results.failuresByModel ?? {}).flatMap(([modelId, kinds]) =>
+    Object.entries(kinds).map(([kind, count]) => `${modelId}:${kind}:${count}`)
+  );
+}
+
+function isCommunityComparable(experiment: Experiment): boolean {
+  return !experiment.stimuli &&
+    !experiment.contexts &&
+    (experiment.prompts ?? [DEFAULT_PROMPT]).every(p => p.id === DEFAULT_PROMPT.id);
+}
+
 // Auto-submit from runner (uses Experiment object directly)
 export async function autoSubmitExperiment(
   experiment: Experiment,
   results: ExperimentResults
 ): Promise<{ success: boolean; id?: string; error?: string }> {
+  // The community dataset holds one stimulus under the default instruction;
+  // pooled stimuli, prompt variants or contexts would misattribute the words
+  if (!isCommunityComparable(experiment)) {
+    return { success: false, error: 'Only single-stimulus experiments with the default prompt are shared' };
+  }
+
   try {
     // Extract temperature range from configs
     const temps = experiment.configs.map(c => c.temperature);
@@ -121,6 +141,8 @@ export async function autoSubmitExperiment(
           })),
           byTemperature: results.byTemperature,
         },
+        errorCount: results.failureCount ?? 0,
+        errors: summarizeFailures(results),
       }),
     });
 
@@ -0,0 +1,51 @@
+/**
+ * One Word - Context Variants
+ *
+ * A one-word answer can shift with what came before it: a persona in the
+ * system prompt, or earlier turns of conversation. Each context variant is
+ * another axis of the experiment grid, applied on top of the rendered prompt.
+ */
+
+import type { ContextVariant, Experiment, ExperimentConfig, PromptTemplate, SampleParams } from './types';
+import { renderPrompt } from './prompts';
+
+export const BASELINE_CONTEXT: ContextVariant = {
+  id: 'context-none',
+  name: 'No context',
+  persona: '',
+  turns: [],
+};
+
+export function contextFor(
+  experiment: Experiment,
+  config: Pick<ExperimentConfig, 'contextId'>
+): ContextVariant | undefined {
+  return experiment.contexts?.find(c => c.id === config.contextId);
+}
+
+/**
+ * Put the persona ahead of the prompt's system instruction and the turns
+ * ahead of its user turn.
+ */
+export function applyContext(
+  prompt: { systemPrompt: string; stimulus: string },
+  context?: ContextVariant
+): Pick<SampleParams, 'systemPrompt' | 'stimulus' | 'history'> {
+  if (!context) return prompt;
+  return {
+    systemPrompt: [context.persona, prompt.systemPrompt].filter(Boolean).join('\n\n'),
+    stimulus: prompt.stimulus,
+    history: context.turns.length > 0 ? context.turns : undefined,
+  };
+}
+
+/**
+ * The text a call sends, for token estimates: the rendered prompt with
+ * whatever context precedes the stimulus.
+ */
+export function callText(prompt: PromptTemplate, stimulus: string, context?: ContextVariant): string {
+  const { systemPrompt, history, stimulus: userTurn } = applyContext(renderPrompt(prompt, stimulus), context);
+  return [systemPrompt, ...(history ?? []).map(t => t.content), userTurn]
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,232 @@
+/**
+ * One Word - Entropy Estimation
+ *
+ * The plug-in entropy of sampled words runs low on small samples: at a
+ * hundred samples per cell most of a model's vocabulary is never drawn. This
+ * module provides bias-corrected estimators, and bootstrap intervals for the
+ * entropy and for each word's share, so cells can be compared with error bars.
+ */
+
+import type { EntropyEstimate, WordFrequency } from './types';
+
+const BOOTSTRAP_REPLICATES = 200;
+const INTERVAL = 0.95;
+const NSB_GRID_POINTS = 200;
+const NSB_LOG_BETA_RANGE: [number, number] = [Math.log(1e-4), Math.log(1e4)];
+
+// ==================== Special Functions ====================
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+// ln Γ(x) for x > 0
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// ψ(x): recurse up to where the asymptotic series is accurate
+function digamma(x: number): number {
+  let result = 0;
+  while (x < 6) {
+    result -= 1 / x;
+    x += 1;
+  }
+  const inv2 = 1 / (x * x);
+  return result + Math.log(x) - 0.5 / x - inv2 * (1 / 12 - inv2 * (1 / 120 - inv2 / 252));
+}
+
+// ψ'(x), likewise
+function trigamma(x: number): number {
+  let result = 0;
+  while (x < 6) {
+    result += 1 / (x * x);
+    x += 1;
+  }
+  const inv = 1 / x;
+  const inv2 = inv * inv;
+  return result + inv + inv2 / 2 + inv * inv2 * (1 / 6 - inv2 * (1 / 30 - inv2 * (1 / 42 - inv2 / 30)));
+}
+
+// ==================== Estimators ====================
+
+const total = (counts: number[]): number => counts.reduce((sum, count) => sum + count, 0);
+
+/**
+ * Maximum-likelihood entropy in bits: the observed frequencies taken at face value.
+ */
+export function plugInEntropy(counts: number[]): number {
+  const n = total(counts);
+  if (n === 0) return 0;
+  return -counts.reduce((sum, count) => {
+    const p = count / n;
+    return sum + (p > 0 ? p * Math.log2(p) : 0);
+  }, 0);
+}
+
+/**
+ * Plug-in entropy plus the first-order bias term (K - 1) / 2N.
+ */
+export function millerMadowEntropy(counts: number[]): number {
+  const n = total(counts);
+  if (n === 0) return 0;
+  const observed = counts.filter(count => count > 0).length;
+  return plugInEntropy(counts) + (observed - 1) / (2 * n * Math.LN2);
+}
+
+/**
+ * Chao–Shen: shrink frequencies by the Good–Turing sample coverage, then
+ * weight each word by the inverse of its chance of being seen at all.
+ */
+export function chaoShenEntropy(counts: number[]): number {
+  const n = total(counts);
+  if (n === 0) return 0;
+  // With only singletons the coverage would be zero
+  const singletons = Math.min(counts.filter(count => count === 1).length, n - 1);
+  const coverage = 1 - singletons / n;
+  return -counts.reduce((sum, count) => {
+    if (count === 0) return sum;
+    const p = coverage * count / n;
+    return sum + (p * Math.log2(p)) / (1 - (1 - p) ** n);
+  }, 0);
+}
+
+/**
+ * Chao1 lower bound on the number of distinct words a cell could produce.
+ */
+function chao1Richness(counts: number[]): number {
+  const observed = counts.filter(count => count > 0).length;
+  const f1 = counts.filter(count => count === 1).length;
+  const f2 = counts.filter(count => count === 2).length;
+  return observed + (f2 > 0 ? (f1 * f1) / (2 * f2) : (f1 * (f1 - 1)) / 2);
+}
+
+/**
+ * NSB-style posterior mean: average the Dirichlet-posterior entropy over
+ * concentrations, weighted by the evidence and a prior that is flat in
+ * expected entropy. The vocabulary size is unknown, so the Chao1 estimate
+ * stands in for it.
+ */
+export function nsbEntropy(counts: number[]): number {
+  const observed = counts.filter(count => count > 0);
+  const n = total(observed);
+  if (n === 0 || observed.length < 2) return 0;
+  const k = Math.max(observed.length, Math.ceil(chao1Richness(observed)));
+  const unseen = k - observed.length;
+
+  const [low, high] = NSB_LOG_BETA_RANGE;
+  const points: Array<{ logWeight: number; entropy: number }> = [];
+  for (let i = 0; i < NSB_GRID_POINTS; i++) {
+    const beta = Math.exp(low + ((high - low) * i) / (NSB_GRID_POINTS - 1));
+    const a = k * beta;
+
+    const logEvidence = logGamma(a) - logGamma(n + a) +
+      observed.reduce((sum, count) => sum + logGamma(count + beta) - logGamma(beta), 0);
+    // dξ/dβ, times β for the log-spaced grid
+    const prior = (k * trigamma(a + 1) - trigamma(beta + 1)) * beta;
+
+    const entropy = digamma(n + a + 1) -
+      observed.reduce((sum, count) => sum + ((count + beta) / (n + a)) * digamma(count + beta + 1), 0) -
+      unseen * (beta / (n + a)) * digamma(beta + 1);
+
+    if (prior > 0) points.push({ logWeight: logEvidence + Math.log(prior), entropy });
+  }
+
+  const maxLogWeight = Math.max(...points.map(p => p.logWeight));
+  let weightSum = 0;
+  let entropySum = 0;
+  points.forEach(({ logWeight, entropy }) => {
+    const weight = Math.exp(logWeight - maxLogWeight);
+    weightSum += weight;
+    entropySum += weight * entropy;
+  });
+  return entropySum / weightSum / Math.LN2;
+}
+
+// ==================== Bootstrap ====================
+
+// Seeded so the same samples always give the same intervals
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentileInterval(values: number[]): [number, number] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const tail = (1 - INTERVAL) / 2;
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return [at(tail), at(1 - tail)];
+}
+
+/**
+ * Resample the observed counts with replacement, as if the cell had been
+ * drawn again from its own empirical distribution.
+ */
+function resample(counts: number[], random: () => number): number[] {
+  const n = total(counts);
+  const cumulative: number[] = [];
+  counts.reduce((sum, count) => {
+    cumulative.push(sum + count);
+    return sum + count;
+  }, 0);
+
+  const drawn = new Array<number>(counts.length).fill(0);
+  for (let i = 0; i < n; i++) {
+    const target = random() * n;
+    let lo = 0;
+    let hi = cumulative.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] > target) hi = mid;
+      else lo = mid + 1;
+    }
+    drawn[lo]++;
+  }
+  return drawn;
+}
+
+/**
+ * Entropy by every estimator, and the ranked words with a 95% bootstrap
+ * interval on each percentage. The entropy interval is for Chao–Shen.
+ */
+export function analyzeWords(
+  words: WordFrequency[],
+  replicates: number = BOOTSTRAP_REPLICATES
+): { words: WordFrequency[]; entropy: EntropyEstimate } {
+  const counts = words.map(w => w.count);
+  const n = total(counts);
+  const random = mulberry32(n * 31 + counts.length);
+
+  const entropies: number[] = [];
+  const shares: number[][] = words.map(() => []);
+  for (let r = 0; r < (n > 0 ? replicates : 0); r++) {
+    const drawn = resample(counts, random);
+    entropies.push(chaoShenEntropy(drawn));
+    drawn.forEach((count, i) => shares[i].push((count / n) * 100));
+  }
+
+  return {
+    words: words.map((w, i) => ({
+      ...w,
+      interval: n > 0 ? percentileInterval(shares[i]) : undefined,
+    })),
+    entropy: {
+      plugIn: plugInEntropy(counts),
+      millerMadow: millerMadowEntropy(counts),
+      chaoShen: chaoShenEntropy(counts),
+      nsb: nsbEntropy(counts),
+      interval: n > 0 ? percentileInterval(entropies) : [0, 0],
+    },
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * One Word - Word Normalization
+ *
+ * Turns a raw completion into the single word that gets counted. Tokenization
+ * is Unicode-aware (scripts written without spaces go through Intl.Segmenter);
+ * everything after that is an optional stage chosen per experiment, so stored
+ * raw text can be renormalized with a different pipeline later.
+ */
+
+import type { NormalizationPipeline, NormalizationStage, Sample } from './types';
+
+export const DEFAULT_NORMALIZATION: NormalizationPipeline = {
+  stages: ['case-fold'],
+  synonyms: {},
+};
+
+// Letters, marks and digits, allowing inner hyphens and apostrophes
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu;
+// Scripts that don't separate words with spaces
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+const ARTICLES = new Set([
+  'a', 'an', 'the',                                   // English
+  'le', 'la', 'les', 'un', 'une', 'des',              // French
+  'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', // German
+  'el', 'los', 'las', 'una', 'unos', 'unas',          // Spanish
+  'il', 'lo', 'gli', 'uno',                           // Italian
+  'o', 'os', 'um', 'uma',                             // Portuguese
+]);
+// French/Italian elided articles: l'océan, dell'acqua
+const ELIDED_ARTICLE = /^(?:l|d|dell|nell|sull|all|un)['’]/iu;
+
+let segmenter: Intl.Segmenter | null = null;
+
+function splitUnspaced(token: string): string[] {
+  segmenter ??= new Intl.Segmenter(undefined, { granularity: 'word' });
+  return Array.from(segmenter.segment(token))
+    .filter(segment => segment.isWordLike)
+    .map(segment => segment.segment);
+}
+
+function tokenize(text: string): string[] {
+  const tokens = text.normalize('NFC').match(WORD_PATTERN) ?? [];
+  return tokens.flatMap(token => (UNSPACED_SCRIPT.test(token) ? splitUnspaced(token) : [token]));
+}
+
+function stripArticles(tokens: string[]): string[] {
+  const firstContent = tokens.findIndex(token => !ARTICLES.has(token.toLocaleLowerCase()));
+  // A bare article is still an answer
+  if (firstContent === -1) return tokens;
+
+  const rest = tokens.slice(firstContent);
+  const elided = rest[0].replace(ELIDED_ARTICLE, '');
+  return elided ? [elided, ...rest.slice(1)] : rest;
+}
+
+function stripDiacritics(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+}
+
+function foldPlural(word: string): string {
+  const lower = word.toLocaleLowerCase();
+  if (lower.length > 4 && lower.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(?:ss|sh|ch|x|z)es$/.test(lower)) return word.slice(0, -2);
+  if (lower.length > 3 && lower.endsWith('s') && !/(?:ss|us|is)$/.test(lower)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+const WORD_STAGES: Record<Exclude<NormalizationStage, 'strip-articles'>, (word: string) => string> = {
+  'case-fold': word => word.toLocaleLowerCase(),
+  'strip-diacritics': stripDiacritics,
+  'fold-plurals': foldPlural,
+};
+
+/**
+ * Normalize a raw completion to one word, or null if it contains none.
+ */
+export function normalizeWord(
+  text: string,
+  pipeline: NormalizationPipeline = DEFAULT_NORMALIZATION
+): string | null {
+  let tokens = tokenize(text);
+  if (pipeline.stages.includes('strip-articles')) {
+    tokens = stripArticles(tokens);
+  }
+
+  let word = tokens[0];
+  if (!word) return null;
+
+  // Word-level stages run in a fixed order regardless of how they were listed
+  for (const stage of Object.keys(WORD_STAGES) as (keyof typeof WORD_STAGES)[]) {
+    if (pipeline.stages.includes(stage)) {
+      word = WORD_STAGES[stage](word);
+    }
+  }
+
+  return pipeline.synonyms[word] ?? word;
+}
+
+/**
+ * Recompute sample words from their stored raw text under another pipeline.
+ * Samples recorded before raw text was kept are returned unchanged; samples
+ * whose raw text no longer yields a word are dropped.
+ */
+export function renormalizeSamples(samples: Sample[], pipeline: NormalizationPipeline): Sample[] {
+  return samples.flatMap(sample => {
+    if (sample.rawText === undefined) return [sample];
+    const word = normalizeWord(sample.rawText, pipeline);
+    return word ? [{ ...sample, word }] : [];
+  });
+}
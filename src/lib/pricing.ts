@@ -0,0 +1,53 @@
+/**
+ * One Word - Pricing Catalog
+ *
+ * Built-in models carry their own prices in PROVIDER_DATA. This catalog covers
+ * models that only appear through discovery, and user overrides stored locally
+ * take precedence over both. A model found in none of them is flagged as
+ * unpriced and counted as free.
+ */
+
+import type { CostParams, Model, PricingCatalog } from './types';
+
+// Dollars per 1k tokens, from each provider's published pricing
+export const KNOWN_PRICING: PricingCatalog = {
+  // Anthropic
+  'claude-3-5-sonnet-20241022': { inputCostPer1k: 0.003, outputCostPer1k: 0.015 },
+  'claude-3-5-sonnet-20240620': { inputCostPer1k: 0.003, outputCostPer1k: 0.015 },
+  'claude-3-sonnet-20240229': { inputCostPer1k: 0.003, outputCostPer1k: 0.015 },
+  // OpenAI
+  'gpt-5': { inputCostPer1k: 0.00125, outputCostPer1k: 0.01 },
+  'gpt-5-mini': { inputCostPer1k: 0.00025, outputCostPer1k: 0.002 },
+  'gpt-5-nano': { inputCostPer1k: 0.00005, outputCostPer1k: 0.0004 },
+  'gpt-4.1': { inputCostPer1k: 0.002, outputCostPer1k: 0.008 },
+  'gpt-4.1-mini': { inputCostPer1k: 0.0004, outputCostPer1k: 0.0016 },
+  'gpt-4.1-nano': { inputCostPer1k: 0.0001, outputCostPer1k: 0.0004 },
+  'gpt-4': { inputCostPer1k: 0.03, outputCostPer1k: 0.06 },
+  'gpt-3.5-turbo': { inputCostPer1k: 0.0005, outputCostPer1k: 0.0015 },
+  'o3': { inputCostPer1k: 0.002, outputCostPer1k: 0.008 },
+  'o4-mini': { inputCostPer1k: 0.0011, outputCostPer1k: 0.0044 },
+  // Moonshot
+  'kimi-k2-0905-preview': { inputCostPer1k: 0.0006, outputCostPer1k: 0.0025 },
+  'kimi-latest': { inputCostPer1k: 0.002, outputCostPer1k: 0.005 },
+  // Gemini
+  'gemini-2.0-flash-lite': { inputCostPer1k: 0.000075, outputCostPer1k: 0.0003 },
+  'gemini-1.5-pro': { inputCostPer1k: 0.00125, outputCostPer1k: 0.005 },
+  'gemini-1.5-flash': { inputCostPer1k: 0.000075, outputCostPer1k: 0.0003 },
+  // Mistral
+  'codestral-latest': { inputCostPer1k: 0.0003, outputCostPer1k: 0.0009 },
+  'ministral-8b-latest': { inputCostPer1k: 0.0001, outputCostPer1k: 0.0001 },
+  'ministral-3b-latest': { inputCostPer1k: 0.00004, outputCostPer1k: 0.00004 },
+  'pixtral-large-latest': { inputCostPer1k: 0.002, outputCostPer1k: 0.006 },
+};
+
+// Anthropic and OpenAI both bill batch requests at half the interactive price
+export const BATCH_DISCOUNT = 0.5;
+
+/**
+ * Dollar cost of a call at a model's catalog price.
+ */
+export function costOf(model: Pick<Model, 'inputCostPer1k' | 'outputCostPer1k'>, params: CostParams): number {
+  const cost = (params.inputTokens / 1000) * model.inputCostPer1k +
+    (params.outputTokens / 1000) * model.outputCostPer1k;
+  return params.batch ? cost * BATCH_DISCOUNT : cost;
+}
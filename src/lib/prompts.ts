@@ -0,0 +1,57 @@
+/**
+ * One Word - Prompt Templates
+ *
+ * The instruction a model is given is itself a variable under study, so it is
+ * part of the experiment rather than the providers. Built-in templates live
+ * here; templates the user saves are kept in localStorage alongside them.
+ */
+
+import type { Experiment, ExperimentConfig, PromptTemplate } from './types';
+
+export const STIMULUS_PLACEHOLDER = '{{stimulus}}';
+
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'continue',
+    name: 'Continue the sentence',
+    systemPrompt: 'Continue this sentence with exactly one word. Respond with only that single word, nothing else.',
+    userPrompt: STIMULUS_PLACEHOLDER,
+    isBuiltIn: true,
+  },
+  {
+    id: 'associate',
+    name: 'First association',
+    systemPrompt: 'Reply with the first single word that comes to mind. Respond with only that word, nothing else.',
+    userPrompt: STIMULUS_PLACEHOLDER,
+    isBuiltIn: true,
+  },
+  {
+    id: 'bare',
+    name: 'No instruction',
+    systemPrompt: '',
+    userPrompt: STIMULUS_PLACEHOLDER,
+    isBuiltIn: true,
+  },
+];
+
+// Used by every experiment from before prompts were configurable
+export const DEFAULT_PROMPT = BUILT_IN_PROMPTS[0];
+
+export function hasStimulusPlaceholder(template: Pick<PromptTemplate, 'systemPrompt' | 'userPrompt'>): boolean {
+  return template.systemPrompt.includes(STIMULUS_PLACEHOLDER) || template.userPrompt.includes(STIMULUS_PLACEHOLDER);
+}
+
+/**
+ * Fill in the stimulus, giving the system prompt and user turn to send.
+ */
+export function renderPrompt(
+  template: PromptTemplate,
+  stimulus: string
+): { systemPrompt: string; stimulus: string } {
+  const fill = (text: string) => text.split(STIMULUS_PLACEHOLDER).join(stimulus);
+  return { systemPrompt: fill(template.systemPrompt), stimulus: fill(template.userPrompt) };
+}
+
+export function promptFor(experiment: Experiment, config: ExperimentConfig): PromptTemplate {
+  return experiment.prompts?.find(p => p.id === config.promptId) ?? DEFAULT_PROMPT;
+}
@@ -1,8 +1,8 @@
 /**
  * One Word - Provider Abstraction Layer
  *
- * Unified interface for API providers (Anthropic, OpenAI, Kimi)
- * Includes rate limiting, cost estimation, and error handling
+ * Unified interface for API providers (Anthropic, OpenAI, Kimi, Gemini, Mistral)
+ * Includes rate limiting, model discovery, cost estimation, and error handling
  */
 
 import type {
@@ -10,17 +10,293 @@ import type {
   ProviderInterface,
   SampleParams,
   CostParams,
-  KeyValidationResult
+  KeyValidationResult,
+  FailureKind,
+  NormalizationPipeline,
+  ProbabilityResult,
+  SampleResult,
+  BatchRequest,
+  BatchStatus,
+  BatchItemResult,
+  Model,
+  ModelCapabilities,
+  CustomEndpoint,
+  ModelCatalog,
+  RateLimitSettings,
+  ContextTurn,
+  SentParameters
 } from './types';
+import { normalizeWord } from './normalize';
+import { KNOWN_PRICING, costOf } from './pricing';
+import { DEFAULT_PROMPT } from './prompts';
+import { estimateCallTokens } from './tokens';
+
+// ==================== Errors ====================
+
+class ProviderError extends Error {
+  kind: FailureKind;
+  status?: number;
+  rawText?: string; // Whatever the model did say, for refusals and unparseable replies
+  retryAfterMs?: number; // From the Retry-After header of 429/529 responses
+
+  constructor(message: string, kind: FailureKind, status?: number, rawText?: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.status = status;
+    this.rawText = rawText;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const RETRYABLE_FAILURES: ReadonlySet<FailureKind> = new Set<FailureKind>([
+  'rate-limit',
+  'timeout',
+  'network',
+  'server',
+]);
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Batch results come back as JSON Lines, one response per request
+function parseJsonLines<T>(text: string): T[] {
+  return text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as T);
+}
+
+function failureKindFromStatus(status: number): FailureKind {
+  if (status === 429) return 'rate-limit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server'; // includes Anthropic's 529 overloaded
+  return 'unknown';
+}
+
+/**
+ * Map any error thrown while sampling onto the failure taxonomy.
+ */
+export function classifyFailure(error: unknown): FailureKind {
+  if (error instanceof ProviderError) return error.kind;
+  // fetch() rejects with a TypeError when the network request itself fails
+  if (error instanceof TypeError) return 'network';
+  return 'unknown';
+}
+
+export function isRetryableFailure(kind: FailureKind): boolean {
+  return RETRYABLE_FAILURES.has(kind);
+}
+
+const REGION_BLOCKED = /unsupported_country_region_territory|country, region, or territory|user location is not supported|not available in your (?:country|region)/i;
+const NO_CREDIT = /insufficient_quota|credit balance is too low|exceeded_current_quota|billing|payment required/i;
+const KEY_REJECTED = /api key not valid|api_key_invalid|invalid[ _]api[ _]key|invalid x-api-key|incorrect api key/i;
+
+/**
+ * Explain why a key probe failed. Refusals (bad key, no credit, blocked
+ * region) mean the key won't work; anything else only means it went unchecked.
+ */
+function describeKeyFailure(providerName: string, error: unknown): { message: string; refused: boolean } {
+  const status = error instanceof ProviderError ? error.status : undefined;
+  const text = error instanceof Error ? error.message : '';
+
+  // Rejected locally before any request was made
+  if (error instanceof ProviderError && error.kind === 'auth' && status === undefined) {
+    return { message: text, refused: true };
+  }
+  if (REGION_BLOCKED.test(text)) {
+    return { message: `${providerName} is not available in your region`, refused: true };
+  }
+  if (status === 402 || NO_CREDIT.test(text)) {
+    return { message: `No credit left on this ${providerName} account`, refused: true };
+  }
+  if (status === 401 || status === 403 || KEY_REJECTED.test(text)) {
+    return { message: `${providerName} rejected the key as invalid or revoked`, refused: true };
+  }
+  if (status === 429) {
+    return { message: `${providerName} is rate limiting; the key was not checked`, refused: false };
+  }
+  if (status === 404) {
+    return { message: `${providerName} API not found; is the /api proxy running?`, refused: false };
+  }
+  return { message: `Could not reach ${providerName} to check the key`, refused: false };
+}
+
+// ==================== Capabilities ====================
+
+const DEFAULT_MAX_TOKENS = 5;
+
+const CLAUDE_CAPABILITIES: ModelCapabilities = {
+  temperature: { min: 0, max: 1 },
+  topK: true,
+  topP: true,
+  logprobs: false,
+  systemPrompt: true,
+  maxOutputTokens: 64000,
+};
+
+const GPT_CAPABILITIES: ModelCapabilities = {
+  temperature: { min: 0, max: 2 },
+  topK: false,
+  topP: true,
+  logprobs: true,
+  systemPrompt: true,
+  maxOutputTokens: 16384,
+};
+
+// o-series reasoning models reject sampling parameters, logprobs and
+// max_tokens, and count their reasoning against the output cap
+const REASONING_CAPABILITIES: ModelCapabilities = {
+  temperature: null,
+  topK: false,
+  topP: false,
+  logprobs: false,
+  systemPrompt: true,
+  maxOutputTokens: 100000,
+  tokenParam: 'max_completion_tokens',
+  reasoningTokens: 2048,
+};
+
+const GEMINI_CAPABILITIES: ModelCapabilities = {
+  temperature: { min: 0, max: 2 },
+  topK: true,
+  topP: true,
+  logprobs: false,
+  systemPrompt: true,
+  maxOutputTokens: 65536,
+};
+
+// Gemini 2.5 thinks by default, and thinking counts against maxOutputTokens.
+// Flash models can switch it off; Pro needs a minimum budget plus headroom.
+const GEMINI_FLASH_CAPABILITIES: ModelCapabilities = {
+  ...GEMINI_CAPABILITIES,
+  thinkingBudget: 0,
+};
+
+const GEMINI_PRO_CAPABILITIES: ModelCapabilities = {
+  ...GEMINI_CAPABILITIES,
+  thinkingBudget: 128,
+  reasoningTokens: 512,
+};
+
+const MISTRAL_CAPABILITIES: ModelCapabilities = {
+  temperature: { min: 0, max: 1.5 },
+  topK: false,
+  topP: true,
+  logprobs: false,
+  systemPrompt: true,
+  maxOutputTokens: 8192,
+};
+
+const MOONSHOT_CAPABILITIES: ModelCapabilities = {
+  temperature: { min: 0, max: 1 },
+  topK: false,
+  topP: true,
+  logprobs: false,
+  systemPrompt: true,
+  maxOutputTokens: 8192,
+};
+
+/**
+ * Fit requested sampling parameters to what a model accepts. Top-k is never
+ * approximated through top-p: a model without top-k simply doesn't get one.
+ */
+export function resolveSentParameters(
+  params: SampleParams,
+  capabilities: ModelCapabilities
+): SentParameters {
+  const range = capabilities.temperature;
+  return {
+    temperature: range ? Math.min(range.max, Math.max(range.min, params.temperature)) : null,
+    topK: capabilities.topK ? params.topK : null,
+    topP: null, // No top-p control in the builder yet
+    maxTokens: Math.min(
+      (params.maxTokens || DEFAULT_MAX_TOKENS) + (capabilities.reasoningTokens ?? 0),
+      capabilities.maxOutputTokens
+    ),
+    systemPrompt: capabilities.systemPrompt,
+  };
+}
+
+/**
+ * Human-readable notes on how a model will alter the builder's settings.
+ */
+export function parameterWarnings(
+  model: Model,
+  temperatures: number[],
+  varyTopK: boolean
+): string[] {
+  const { capabilities } = model;
+  const warnings: string[] = [];
+  const range = capabilities.temperature;
+
+  if (!range) {
+    warnings.push(`${model.name} uses a fixed temperature; the setting is not sent`);
+  } else {
+    if (temperatures.some(t => t < range.min || t > range.max)) {
+      warnings.push(
+        `${model.name} accepts temperature ${range.min}–${range.max}; values outside are clamped`
+      );
+    }
+  }
+
+  if (varyTopK && !capabilities.topK) {
+    warnings.push(`${model.name} has no top-k; every top-k value samples the same distribution`);
+  }
+
+  return warnings;
+}
 
 // ==================== Base Provider Class ====================
 
 abstract class BaseProvider implements ProviderInterface {
   abstract id: string;
   abstract name: string;
-  abstract validateKey(key: string): Promise<boolean>;
-  abstract sample(params: SampleParams, key: string): Promise<string>;
-  abstract estimateCost(params: CostParams): number;
+  // Cheap local check so obviously wrong keys never reach the network
+  abstract matchesKeyFormat(key: string): boolean;
+  abstract sample(params: SampleParams, key: string): Promise<SampleResult>;
+  // Only for providers that expose token logprobs
+  probabilities?(params: SampleParams, key: string): Promise<ProbabilityResult>;
+  // Model ids the key can use, as listed by the provider's API
+  abstract listModels(key: string): Promise<string[]>;
+  // Only for providers with an asynchronous batch API
+  submitBatch?(requests: BatchRequest[], key: string): Promise<string>;
+  batchStatus?(batchId: string, key: string): Promise<BatchStatus>;
+  batchResults?(batchId: string, requests: BatchRequest[], key: string): Promise<BatchItemResult[]>;
+  cancelBatch?(batchId: string, key: string): Promise<void>;
+  supportsBatch = false;
+  // Used for model ids missing from PROVIDER_DATA
+  protected abstract defaultCapabilities: ModelCapabilities;
+  requiresKey = true;
+
+  capabilitiesFor(modelId: string): ModelCapabilities {
+    const model = PROVIDER_DATA.find(p => p.id === this.id)?.models.find(m => m.id === modelId);
+    return model?.capabilities ?? this.defaultCapabilities;
+  }
+
+  /**
+   * The instruction and conversation to send: any context turns, then the
+   * user turn. The instruction is folded into the user turn for models that
+   * reject system messages, and left out when the prompt template has none.
+   */
+  protected promptTurns(params: SampleParams, sent: SentParameters): { system?: string; turns: ContextTurn[] } {
+    const system = params.systemPrompt ?? DEFAULT_PROMPT.systemPrompt;
+    const history = params.history ?? [];
+    if (!system) return { turns: [...history, { role: 'user', content: params.stimulus }] };
+    return sent.systemPrompt
+      ? { system, turns: [...history, { role: 'user', content: params.stimulus }] }
+      : { turns: [...history, { role: 'user', content: `${system}\n\n${params.stimulus}` }] };
+  }
+
+  // Chat-style messages for OpenAI-compatible APIs
+  protected chatMessages(params: SampleParams, sent: SentParameters): Array<{ role: string; content: string }> {
+    const { system, turns } = this.promptTurns(params, sent);
+    return system ? [{ role: 'system', content: system }, ...turns] : turns;
+  }
 
   protected async makeRequest(
     url: string,
@@ -41,40 +317,161 @@ abstract class BaseProvider implements ProviderInterface {
     } catch (error) {
       clearTimeout(timeoutId);
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timeout');
+        throw new ProviderError('Request timeout', 'timeout');
       }
       throw error;
     }
   }
 
-  protected extractWord(text: string): string {
-    // Extract single word from API response
-    // Handle common variations and clean up
-    const cleaned = text
-      .trim()
-      .replace(/[^\w\s'-]/g, '') // Remove punctuation except hyphens and apostrophes
-      .split(/\s+/)[0] // Take first word
-      .toLowerCase();
+  /**
+   * Prove a key works with an authenticated models-list call through the
+   * proxy; listing is free on every provider. Resolves to the listed model ids
+   * and rejects with the provider's error when the key is refused.
+   */
+  async validateKey(key: string): Promise<string[]> {
+    if (this.requiresKey && !this.matchesKeyFormat(key)) {
+      throw new ProviderError(`Not a ${this.name} key format`, 'auth');
+    }
+    return this.listModels(key);
+  }
+
+  protected async fetchModelList(url: string, headers: Record<string, string>): Promise<unknown> {
+    const response = await this.makeRequest(url, { method: 'GET', headers });
+    await this.throwForStatus(response);
+    return response.json();
+  }
+
+  protected async throwForStatus(response: Response): Promise<void> {
+    if (response.ok) return;
+    const error = await response.text();
+    throw new ProviderError(
+      `${this.name} API error: ${response.status} ${error}`,
+      failureKindFromStatus(response.status),
+      response.status,
+      undefined,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+
+  /**
+   * Settle one batch entry: the parsed sample, or the failure it would have
+   * thrown as an interactive call.
+   */
+  protected batchItem(
+    customId: string,
+    parse: () => SampleResult
+  ): BatchItemResult {
+    try {
+      return { customId, result: parse() };
+    } catch (error) {
+      return {
+        customId,
+        error: {
+          kind: classifyFailure(error),
+          message: error instanceof Error ? error.message : String(error),
+          rawText: error instanceof ProviderError ? error.rawText : undefined,
+        },
+      };
+    }
+  }
+
+  // Requests the provider never answered, e.g. when a batch expired
+  protected unansweredRequests(requests: BatchRequest[], items: BatchItemResult[], message: string): BatchItemResult[] {
+    const answered = new Set(items.map(item => item.customId));
+    return requests
+      .filter(request => !answered.has(request.customId))
+      .map(request => ({ customId: request.customId, error: { kind: 'unknown', message } }));
+  }
 
-    // Fallback if no valid word
-    if (!cleaned || cleaned.length === 0) {
-      throw new Error('No valid word in response');
+  protected chatCompletionUsage(data: {
+    usage?: { prompt_tokens: number; completion_tokens: number };
+  }): SampleResult['usage'] {
+    // Chat-completions APIs report usage as prompt/completion token counts
+    if (!data.usage) return null;
+    return {
+      inputTokens: data.usage.prompt_tokens,
+      outputTokens: data.usage.completion_tokens,
+    };
+  }
+
+  /**
+   * Turn first-token logprobs into a ranked word distribution at the requested
+   * temperature. Logprobs are untempered, so they are rescaled by 1/T and
+   * renormalized over the listed tokens; tokens that normalize to the same word
+   * are merged and tokens with no word in them are dropped.
+   */
+  protected wordDistribution(
+    topLogprobs: Array<{ token: string; logprob: number }>,
+    temperature: number,
+    pipeline?: NormalizationPipeline
+  ): Pick<ProbabilityResult, 'words' | 'coverage'> {
+    const coverage = topLogprobs.reduce((sum, t) => sum + Math.exp(t.logprob), 0);
+
+    // Temperature 0 is greedy decoding: all mass on the most likely token
+    const scaled = temperature > 0
+      ? topLogprobs.map(t => t.logprob / temperature)
+      : topLogprobs.map((_, i) => (i === 0 ? 0 : -Infinity));
+    const max = Math.max(...scaled);
+    const weights = scaled.map(logit => Math.exp(logit - max));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+
+    const byWord = new Map<string, number>();
+    topLogprobs.forEach((t, i) => {
+      const word = normalizeWord(t.token, pipeline);
+      if (word) byWord.set(word, (byWord.get(word) || 0) + weights[i] / total);
+    });
+
+    const words = Array.from(byWord.entries())
+      .map(([word, probability]) => ({ word, probability }))
+      .sort((a, b) => b.probability - a.probability);
+
+    return { words, coverage };
+  }
+
+  protected extractWord(text: string, pipeline?: NormalizationPipeline): string {
+    const word = normalizeWord(text, pipeline);
+
+    if (!word) {
+      throw new ProviderError('No valid word in response', 'parse', undefined, text);
     }
 
-    return cleaned;
+    return word;
   }
 }
 
 // ==================== Anthropic Provider ====================
 
+interface AnthropicMessage {
+  content?: Array<{ text?: string }>;
+  stop_reason?: string | null;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicBatchLine {
+  custom_id: string;
+  result?: {
+    type: 'succeeded' | 'errored' | 'canceled' | 'expired';
+    message?: AnthropicMessage;
+    error?: { error?: { type?: string; message?: string } };
+  };
+}
+
+// Error types inside an errored batch result, which carries no HTTP status
+const ANTHROPIC_ERROR_KINDS: Record<string, FailureKind> = {
+  authentication_error: 'auth',
+  permission_error: 'auth',
+  rate_limit_error: 'rate-limit',
+  api_error: 'server',
+  overloaded_error: 'server',
+};
+
 class AnthropicProvider extends BaseProvider {
   id = 'anthropic';
   name = 'Anthropic';
+  protected defaultCapabilities = CLAUDE_CAPABILITIES;
   baseUrl = '/api/anthropic'; // Proxied through nginx to avoid CORS
 
-  async validateKey(key: string): Promise<boolean> {
-    // CORS prevents direct API validation from browser
-    // Validate key format instead - actual validation happens on first use
+  matchesKeyFormat(key: string): boolean {
     if (!key || typeof key !== 'string') return false;
 
     // Anthropic keys start with 'sk-ant-' and are typically 100+ chars
@@ -82,88 +479,211 @@ class AnthropicProvider extends BaseProvider {
     return isValidFormat;
   }
 
-  async sample(params: SampleParams, key: string): Promise<string> {
-    const systemPrompt = 'Continue this sentence with exactly one word. Respond with only that single word, nothing else.';
+  async listModels(key: string): Promise<string[]> {
+    const data = await this.fetchModelList(`${this.baseUrl}/v1/models?limit=1000`, {
+      'anthropic-version': '2023-06-01',
+      'x-api-key': key,
+      'anthropic-dangerous-direct-browser-access': 'true',
+    }) as { data?: Array<{ id: string }> };
+    return (data.data ?? []).map(model => model.id);
+  }
+
+  supportsBatch = true;
+
+  private requestHeaders(key: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01',
+      'x-api-key': key,
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  private messageBody(params: SampleParams, sent: SentParameters) {
+    const { system, turns } = this.promptTurns(params, sent);
+    return {
+      model: params.model,
+      max_tokens: sent.maxTokens,
+      system,
+      messages: turns,
+      temperature: sent.temperature ?? undefined,
+      top_k: sent.topK ?? undefined,
+    };
+  }
+
+  async sample(params: SampleParams, key: string): Promise<SampleResult> {
+    const sent = resolveSentParameters(params, this.capabilitiesFor(params.model));
 
     const response = await this.makeRequest(
       `${this.baseUrl}/v1/messages`,
       {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'anthropic-version': '2023-06-01',
-          'x-api-key': key,
-          'anthropic-dangerous-direct-browser-access': 'true',
-        },
-        body: JSON.stringify({
-          model: params.model,
-          max_tokens: params.maxTokens || 5,
-          system: systemPrompt,
-          messages: [{ role: 'user', content: params.stimulus }],
-          // Anthropic only supports temperature 0..1
-          temperature: Math.min(1, Math.max(0, params.temperature)),
-          top_k: params.topK,
-        }),
+        headers: this.requestHeaders(key),
+        body: JSON.stringify(this.messageBody(params, sent)),
       }
     );
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Anthropic API error: ${response.status} ${error}`);
+    await this.throwForStatus(response);
+
+    return this.parseMessage(await response.json(), params, sent);
+  }
+
+  // Shared by interactive calls and batch results, which carry the same message
+  private parseMessage(data: AnthropicMessage, params: SampleParams, sent: SentParameters): SampleResult {
+    if (data.stop_reason === 'refusal') {
+      throw new ProviderError(
+        'Anthropic declined to answer',
+        'content-refusal',
+        undefined,
+        data.content?.[0]?.text
+      );
     }
 
-    const data = await response.json();
     const content = data.content?.[0]?.text;
 
     if (!content) {
-      throw new Error('No content in Anthropic response');
+      throw new ProviderError('No content in Anthropic response', 'parse');
     }
 
-    return this.extractWord(content);
+    return {
+      word: this.extractWord(content, params.normalization),
+      rawText: content,
+      sent,
+      stopReason: data.stop_reason ?? null,
+      usage: data.usage
+        ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+        : null,
+    };
   }
 
-  estimateCost(params: CostParams): number {
-    // Anthropic pricing (per 1k tokens)
-    const modelPricing: Record<string, { input: number; output: number }> = {
-      // Claude 4.5
-      'claude-opus-4-5-20251101': { input: 0.005, output: 0.025 },
-      'claude-sonnet-4-5-20250929': { input: 0.003, output: 0.015 },
-      'claude-haiku-4-5-20251001': { input: 0.001, output: 0.005 },
-      // Claude 4.1
-      'claude-opus-4-1-20250805': { input: 0.015, output: 0.075 },
-      // Claude 4
-      'claude-opus-4-20250514': { input: 0.015, output: 0.075 },
-      'claude-sonnet-4-20250514': { input: 0.003, output: 0.015 },
-      // Claude 3.7
-      'claude-3-7-sonnet-20250219': { input: 0.003, output: 0.015 },
-      // Claude 3.5
-      'claude-3-5-haiku-20241022': { input: 0.001, output: 0.005 },
-      // Claude 3
-      'claude-3-opus-20240229': { input: 0.015, output: 0.075 },
-      'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 },
+  async submitBatch(requests: BatchRequest[], key: string): Promise<string> {
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1/messages/batches`,
+      {
+        method: 'POST',
+        headers: this.requestHeaders(key),
+        body: JSON.stringify({
+          requests: requests.map(request => ({
+            custom_id: request.customId,
+            params: this.messageBody(
+              request.params,
+              resolveSentParameters(request.params, this.capabilitiesFor(request.params.model))
+            ),
+          })),
+        }),
+      },
+      120000
+    );
+
+    await this.throwForStatus(response);
+    return (await response.json()).id;
+  }
+
+  async batchStatus(batchId: string, key: string): Promise<BatchStatus> {
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1/messages/batches/${batchId}`,
+      { method: 'GET', headers: this.requestHeaders(key) }
+    );
+
+    await this.throwForStatus(response);
+
+    const data = await response.json();
+    const counts = data.request_counts ?? {};
+    const completed = (counts.succeeded ?? 0) + (counts.errored ?? 0) +
+      (counts.canceled ?? 0) + (counts.expired ?? 0);
+    return {
+      ended: data.processing_status === 'ended',
+      completed,
+      total: completed + (counts.processing ?? 0),
     };
+  }
+
+  async batchResults(batchId: string, requests: BatchRequest[], key: string): Promise<BatchItemResult[]> {
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1/messages/batches/${batchId}/results`,
+      { method: 'GET', headers: this.requestHeaders(key) },
+      120000
+    );
 
-    const pricing = modelPricing[params.model];
-    if (!pricing) {
-      return 0; // Unknown model
+    await this.throwForStatus(response);
+
+    const byId = new Map(requests.map(request => [request.customId, request]));
+    const items: BatchItemResult[] = [];
+
+    for (const line of parseJsonLines<AnthropicBatchLine>(await response.text())) {
+      const request = byId.get(line.custom_id);
+      if (!request) continue;
+      const { params } = request;
+      const result = line.result;
+
+      items.push(this.batchItem(request.customId, () => {
+        if (result?.type === 'succeeded' && result.message) {
+          return this.parseMessage(
+            result.message,
+            params,
+            resolveSentParameters(params, this.capabilitiesFor(params.model))
+          );
+        }
+        if (result?.type === 'errored') {
+          const error = result.error?.error ?? {};
+          throw new ProviderError(
+            `Anthropic API error: ${error.type ?? 'error'} ${error.message ?? ''}`.trim(),
+            ANTHROPIC_ERROR_KINDS[error.type ?? ''] ?? 'unknown'
+          );
+        }
+        throw new ProviderError(`Batch request ${result?.type ?? 'missing'}`, 'unknown');
+      }));
     }
 
-    const inputCost = (params.inputTokens / 1000) * pricing.input;
-    const outputCost = (params.outputTokens / 1000) * pricing.output;
+    return [...items, ...this.unansweredRequests(requests, items, 'Batch ended without a result')];
+  }
 
-    return inputCost + outputCost;
+  async cancelBatch(batchId: string, key: string): Promise<void> {
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1/messages/batches/${batchId}/cancel`,
+      { method: 'POST', headers: this.requestHeaders(key) }
+    );
+    await this.throwForStatus(response);
   }
 }
 
 // ==================== OpenAI Provider ====================
 
+const OPENAI_TOP_LOGPROBS = 20; // API maximum
+
+interface ChatCompletion {
+  choices?: Array<{
+    finish_reason?: string | null;
+    message?: { content?: string | null; refusal?: string | null };
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+  error?: { message?: string };
+}
+
+interface OpenAIBatch {
+  status: string;
+  request_counts?: { total: number; completed: number; failed: number };
+  output_file_id?: string | null;
+  error_file_id?: string | null;
+  errors?: { data?: Array<{ message?: string }> };
+}
+
+interface OpenAIBatchLine {
+  custom_id: string;
+  response?: { status_code: number; body?: ChatCompletion } | null;
+  error?: { message?: string } | null;
+}
+
+const OPENAI_BATCH_ENDED = new Set(['completed', 'failed', 'expired', 'cancelled']);
+
 class OpenAIProvider extends BaseProvider {
   id = 'openai';
   name = 'OpenAI';
+  protected defaultCapabilities = GPT_CAPABILITIES;
   baseUrl = '/api/openai'; // Proxied through nginx to avoid CORS
+  supportsBatch = true;
 
-  async validateKey(key: string): Promise<boolean> {
-    // CORS prevents direct API validation from browser
+  matchesKeyFormat(key: string): boolean {
     if (!key || typeof key !== 'string') return false;
 
     // OpenAI keys start with 'sk-' but NOT 'sk-ant-' (Anthropic) or 'sk-kimi-' (Kimi)
@@ -174,64 +694,235 @@ class OpenAIProvider extends BaseProvider {
     return isValidFormat;
   }
 
-  async sample(params: SampleParams, key: string): Promise<string> {
-    const systemPrompt = 'Continue this sentence with exactly one word. Respond with only that single word, nothing else.';
+  protected requestHeaders(key: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${key}`,
+    };
+  }
+
+  async listModels(key: string): Promise<string[]> {
+    const data = await this.fetchModelList(`${this.baseUrl}/v1/models`, this.requestHeaders(key)) as {
+      data?: Array<{ id: string }>;
+    };
+    return (data.data ?? []).map(model => model.id).filter(id => this.isChatModel(id));
+  }
+
+  // The OpenAI list also holds embedding, audio and image models
+  protected isChatModel(modelId: string): boolean {
+    return /^(gpt-|o\d|chatgpt-)/.test(modelId) &&
+      !/(audio|realtime|transcribe|tts|image|search|instruct)/.test(modelId);
+  }
+
+  // Reasoning models take max_completion_tokens and reject max_tokens
+  private tokenLimit(modelId: string, tokens: number): Record<string, number> {
+    return { [this.capabilitiesFor(modelId).tokenParam ?? 'max_tokens']: tokens };
+  }
+
+  private completionBody(params: SampleParams, sent: SentParameters) {
+    return {
+      model: params.model,
+      ...this.tokenLimit(params.model, sent.maxTokens),
+      messages: this.chatMessages(params, sent),
+      temperature: sent.temperature ?? undefined,
+      top_p: sent.topP ?? undefined,
+      // Not an OpenAI parameter, but accepted by most compatible servers
+      top_k: sent.topK ?? undefined,
+    };
+  }
+
+  async sample(params: SampleParams, key: string): Promise<SampleResult> {
+    const sent = resolveSentParameters(params, this.capabilitiesFor(params.model));
 
     const response = await this.makeRequest(
       `${this.baseUrl}/v1/chat/completions`,
       {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${key}`,
-        },
+        headers: this.requestHeaders(key),
+        body: JSON.stringify(this.completionBody(params, sent)),
+      }
+    );
+
+    await this.throwForStatus(response);
+
+    return this.parseCompletion(await response.json(), params, sent);
+  }
+
+  // Shared by interactive calls and batch output, which carries the same body
+  private parseCompletion(data: ChatCompletion, params: SampleParams, sent: SentParameters): SampleResult {
+    const choice = data.choices?.[0];
+
+    if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+      throw new ProviderError(
+        `${this.name} declined to answer`,
+        'content-refusal',
+        undefined,
+        choice.message?.refusal ?? choice.message?.content ?? undefined
+      );
+    }
+
+    const content = choice?.message?.content;
+
+    if (!content) {
+      throw new ProviderError(`No content in ${this.name} response`, 'parse');
+    }
+
+    return {
+      word: this.extractWord(content, params.normalization),
+      rawText: content,
+      sent,
+      stopReason: choice.finish_reason ?? null,
+      usage: this.chatCompletionUsage(data),
+    };
+  }
+
+  async probabilities(params: SampleParams, key: string): Promise<ProbabilityResult> {
+    const sent = resolveSentParameters(params, this.capabilitiesFor(params.model));
+
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1/chat/completions`,
+      {
+        method: 'POST',
+        headers: this.requestHeaders(key),
         body: JSON.stringify({
           model: params.model,
-          max_tokens: params.maxTokens || 5,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: params.stimulus },
-          ],
-          temperature: params.temperature,
-          // OpenAI doesn't have top_k, using top_p instead
-          top_p: Math.max(0.1, params.topK / 100),
+          ...this.tokenLimit(params.model, 1 + (this.capabilitiesFor(params.model).reasoningTokens ?? 0)),
+          messages: this.chatMessages(params, sent),
+          logprobs: true,
+          top_logprobs: OPENAI_TOP_LOGPROBS,
         }),
       }
     );
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
-    }
+    await this.throwForStatus(response);
 
     const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    const topLogprobs = data.choices?.[0]?.logprobs?.content?.[0]?.top_logprobs;
 
-    if (!content) {
-      throw new Error('No content in OpenAI response');
+    if (!Array.isArray(topLogprobs) || topLogprobs.length === 0) {
+      throw new ProviderError(`No logprobs in ${this.name} response`, 'parse');
     }
 
-    return this.extractWord(content);
+    return {
+      // Reasoning models run at a fixed temperature of 1
+      ...this.wordDistribution(topLogprobs, sent.temperature ?? 1, params.normalization),
+      usage: this.chatCompletionUsage(data),
+    };
   }
 
-  estimateCost(params: CostParams): number {
-    // OpenAI pricing (per 1k tokens)
-    const modelPricing: Record<string, { input: number; output: number }> = {
-      'gpt-4o': { input: 0.0025, output: 0.01 },
-      'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
-      'gpt-4-turbo': { input: 0.01, output: 0.03 },
-      // Add other models as needed
+  /**
+   * The Batch API takes its requests as an uploaded JSONL file, one
+   * chat-completions body per line.
+   */
+  async submitBatch(requests: BatchRequest[], key: string): Promise<string> {
+    const lines = requests.map(request => JSON.stringify({
+      custom_id: request.customId,
+      method: 'POST',
+      url: '/v1/chat/completions',
+      body: this.completionBody(
+        request.params,
+        resolveSentParameters(request.params, this.capabilitiesFor(request.params.model))
+      ),
+    }));
+
+    const form = new FormData();
+    form.append('purpose', 'batch');
+    form.append('file', new Blob([lines.join('\n')], { type: 'application/jsonl' }), 'batch.jsonl');
+
+    // The browser sets the multipart boundary itself
+    const { Authorization } = this.requestHeaders(key);
+    const upload = await this.makeRequest(
+      `${this.baseUrl}/v1/files`,
+      { method: 'POST', headers: { Authorization }, body: form },
+      120000
+    );
+    await this.throwForStatus(upload);
+    const file = await upload.json();
+
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1/batches`,
+      {
+        method: 'POST',
+        headers: this.requestHeaders(key),
+        body: JSON.stringify({
+          input_file_id: file.id,
+          endpoint: '/v1/chat/completions',
+          completion_window: '24h',
+        }),
+      }
+    );
+    await this.throwForStatus(response);
+    return (await response.json()).id;
+  }
+
+  private async fetchBatch(batchId: string, key: string): Promise<OpenAIBatch> {
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1/batches/${batchId}`,
+      { method: 'GET', headers: this.requestHeaders(key) }
+    );
+    await this.throwForStatus(response);
+    return response.json();
+  }
+
+  async batchStatus(batchId: string, key: string): Promise<BatchStatus> {
+    const batch = await this.fetchBatch(batchId, key);
+    const counts = batch.request_counts ?? { total: 0, completed: 0, failed: 0 };
+    return {
+      ended: OPENAI_BATCH_ENDED.has(batch.status),
+      completed: counts.completed + counts.failed,
+      total: counts.total,
     };
+  }
 
-    const pricing = modelPricing[params.model];
-    if (!pricing) {
-      return 0; // Unknown model
+  async batchResults(batchId: string, requests: BatchRequest[], key: string): Promise<BatchItemResult[]> {
+    const batch = await this.fetchBatch(batchId, key);
+    const byId = new Map(requests.map(request => [request.customId, request]));
+    const items: BatchItemResult[] = [];
+
+    // Successful responses and per-request errors land in separate files
+    for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+      if (!fileId) continue;
+      const response = await this.makeRequest(
+        `${this.baseUrl}/v1/files/${fileId}/content`,
+        { method: 'GET', headers: this.requestHeaders(key) },
+        120000
+      );
+      await this.throwForStatus(response);
+
+      for (const line of parseJsonLines<OpenAIBatchLine>(await response.text())) {
+        const request = byId.get(line.custom_id);
+        if (!request) continue;
+        const { params } = request;
+
+        items.push(this.batchItem(request.customId, () => {
+          const status = line.response?.status_code ?? 0;
+          if (status === 200 && line.response?.body) {
+            return this.parseCompletion(
+              line.response.body,
+              params,
+              resolveSentParameters(params, this.capabilitiesFor(params.model))
+            );
+          }
+          const message = line.error?.message ?? line.response?.body?.error?.message ?? 'Batch request failed';
+          throw new ProviderError(
+            `${this.name} API error: ${status || ''} ${message}`.trim(),
+            status ? failureKindFromStatus(status) : 'unknown'
+          );
+        }));
+      }
     }
 
-    const inputCost = (params.inputTokens / 1000) * pricing.input;
-    const outputCost = (params.outputTokens / 1000) * pricing.output;
+    // A batch that failed validation or expired leaves requests unanswered
+    const reason = batch.errors?.data?.[0]?.message ?? `Batch ${batch.status} without a result`;
+    return [...items, ...this.unansweredRequests(requests, items, reason)];
+  }
 
-    return inputCost + outputCost;
+  async cancelBatch(batchId: string, key: string): Promise<void> {
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1/batches/${batchId}/cancel`,
+      { method: 'POST', headers: this.requestHeaders(key) }
+    );
+    await this.throwForStatus(response);
   }
 }
 
@@ -240,10 +931,10 @@ class OpenAIProvider extends BaseProvider {
 class KimiProvider extends BaseProvider {
   id = 'kimi';
   name = 'Kimi';
+  protected defaultCapabilities = MOONSHOT_CAPABILITIES;
   baseUrl = '/api/kimi'; // Proxied through nginx to avoid CORS
 
-  async validateKey(key: string): Promise<boolean> {
-    // CORS prevents direct API validation from browser
+  matchesKeyFormat(key: string): boolean {
     if (!key || typeof key !== 'string') return false;
 
     // Kimi/Moonshot keys start with 'sk-' or 'sk-kimi-'
@@ -251,8 +942,15 @@ class KimiProvider extends BaseProvider {
     return isValidFormat;
   }
 
-  async sample(params: SampleParams, key: string): Promise<string> {
-    const systemPrompt = 'Continue this sentence with exactly one word. Respond with only that single word, nothing else.';
+  async listModels(key: string): Promise<string[]> {
+    const data = await this.fetchModelList(`${this.baseUrl}/v1/models`, {
+      'Authorization': `Bearer ${key}`,
+    }) as { data?: Array<{ id: string }> };
+    return (data.data ?? []).map(model => model.id);
+  }
+
+  async sample(params: SampleParams, key: string): Promise<SampleResult> {
+    const sent = resolveSentParameters(params, this.capabilitiesFor(params.model));
 
     const response = await this.makeRequest(
       `${this.baseUrl}/v1/chat/completions`,
@@ -264,126 +962,561 @@ class KimiProvider extends BaseProvider {
         },
         body: JSON.stringify({
           model: params.model,
-          max_tokens: params.maxTokens || 5,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: params.stimulus },
-          ],
-          temperature: params.temperature,
-          // Kimi might have different parameter names
+          max_tokens: sent.maxTokens,
+          messages: this.chatMessages(params, sent),
+          temperature: sent.temperature ?? undefined,
+          top_p: sent.topP ?? undefined,
         }),
       }
     );
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Kimi API error: ${response.status} ${error}`);
-    }
+    await this.throwForStatus(response);
 
     const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    const choice = data.choices?.[0];
+
+    if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+      throw new ProviderError(
+        'Kimi declined to answer',
+        'content-refusal',
+        undefined,
+        choice.message?.refusal ?? choice.message?.content ?? undefined
+      );
+    }
+
+    const content = choice?.message?.content;
 
     if (!content) {
-      throw new Error('No content in Kimi response');
+      throw new ProviderError('No content in Kimi response', 'parse');
     }
 
-    return this.extractWord(content);
+    return {
+      word: this.extractWord(content, params.normalization),
+      rawText: content,
+      sent,
+      stopReason: choice.finish_reason ?? null,
+      usage: this.chatCompletionUsage(data),
+    };
+  }
+}
+
+// ==================== Gemini Provider ====================
+
+// Finish reasons that mean the answer was withheld rather than cut short
+const GEMINI_BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+class GeminiProvider extends BaseProvider {
+  id = 'gemini';
+  name = 'Gemini';
+  protected defaultCapabilities = GEMINI_CAPABILITIES;
+  baseUrl = '/api/gemini'; // Proxied through nginx like the other providers
+
+  matchesKeyFormat(key: string): boolean {
+    if (!key || typeof key !== 'string') return false;
+
+    // Google AI Studio keys are 39 characters starting with 'AIza'
+    const isValidFormat = key.startsWith('AIza') && key.length === 39;
+    return isValidFormat;
   }
 
-  estimateCost(params: CostParams): number {
-    // Kimi pricing (per 1k tokens)
-    const modelPricing: Record<string, { input: number; output: number }> = {
-      'moonshot-v1-8k': { input: 0.001, output: 0.002 },
-      'moonshot-v1-32k': { input: 0.002, output: 0.004 },
-      'moonshot-v1-128k': { input: 0.005, output: 0.01 },
+  async listModels(key: string): Promise<string[]> {
+    const data = await this.fetchModelList(`${this.baseUrl}/v1beta/models?pageSize=1000`, {
+      'x-goog-api-key': key,
+    }) as { models?: Array<{ name: string; supportedGenerationMethods?: string[] }> };
+    return (data.models ?? [])
+      .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+      .map(model => model.name.replace(/^models\//, ''));
+  }
+
+  async sample(params: SampleParams, key: string): Promise<SampleResult> {
+    const capabilities = this.capabilitiesFor(params.model);
+    const sent = resolveSentParameters(params, capabilities);
+    const { system, turns } = this.promptTurns(params, sent);
+
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1beta/models/${params.model}:generateContent`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': key,
+        },
+        body: JSON.stringify({
+          systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+          // Gemini calls the assistant 'model'
+          contents: turns.map(turn => ({
+            role: turn.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: turn.content }],
+          })),
+          // Gemini takes top-k and temperature natively
+          generationConfig: {
+            maxOutputTokens: sent.maxTokens,
+            temperature: sent.temperature ?? undefined,
+            topK: sent.topK ?? undefined,
+            topP: sent.topP ?? undefined,
+            // Models without thinking reject thinkingConfig, so it is only sent when set
+            thinkingConfig: capabilities.thinkingBudget !== undefined
+              ? { thinkingBudget: capabilities.thinkingBudget }
+              : undefined,
+          },
+        }),
+      }
+    );
+
+    await this.throwForStatus(response);
+
+    const data = await response.json();
+    const candidate = data.candidates?.[0];
+    const content = candidate?.content?.parts?.map((part: { text?: string }) => part.text ?? '').join('');
+
+    if (data.promptFeedback?.blockReason || GEMINI_BLOCKED_FINISH_REASONS.has(candidate?.finishReason)) {
+      throw new ProviderError('Gemini declined to answer', 'content-refusal', undefined, content || undefined);
+    }
+
+    if (!content) {
+      throw new ProviderError('No content in Gemini response', 'parse');
+    }
+
+    return {
+      word: this.extractWord(content, params.normalization),
+      rawText: content,
+      sent,
+      stopReason: candidate.finishReason ?? null,
+      usage: data.usageMetadata
+        ? {
+          inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+          // Thinking tokens are billed as output
+          outputTokens: (data.usageMetadata.candidatesTokenCount ?? 0) + (data.usageMetadata.thoughtsTokenCount ?? 0),
+        }
+        : null,
     };
+  }
+}
+
+// ==================== Mistral Provider ====================
+
+class MistralProvider extends BaseProvider {
+  id = 'mistral';
+  name = 'Mistral';
+  protected defaultCapabilities = MISTRAL_CAPABILITIES;
+  baseUrl = '/api/mistral'; // Proxied through nginx to avoid CORS
+
+  matchesKeyFormat(key: string): boolean {
+    if (!key || typeof key !== 'string') return false;
+
+    // Mistral keys are 32 alphanumeric characters with no prefix
+    const isValidFormat = /^[A-Za-z0-9]{32}$/.test(key);
+    return isValidFormat;
+  }
+
+  async listModels(key: string): Promise<string[]> {
+    const data = await this.fetchModelList(`${this.baseUrl}/v1/models`, {
+      'Authorization': `Bearer ${key}`,
+    }) as { data?: Array<{ id: string; capabilities?: { completion_chat?: boolean } }> };
+    return (data.data ?? [])
+      .filter(model => model.capabilities?.completion_chat !== false)
+      .map(model => model.id);
+  }
+
+  async sample(params: SampleParams, key: string): Promise<SampleResult> {
+    const sent = resolveSentParameters(params, this.capabilitiesFor(params.model));
+
+    const response = await this.makeRequest(
+      `${this.baseUrl}/v1/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${key}`,
+        },
+        body: JSON.stringify({
+          model: params.model,
+          max_tokens: sent.maxTokens,
+          messages: this.chatMessages(params, sent),
+          temperature: sent.temperature ?? undefined,
+          top_p: sent.topP ?? undefined,
+        }),
+      }
+    );
+
+    await this.throwForStatus(response);
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    const content = choice?.message?.content;
 
-    const pricing = modelPricing[params.model];
-    if (!pricing) {
-      return 0; // Unknown model
+    if (!content) {
+      throw new ProviderError('No content in Mistral response', 'parse');
     }
 
-    const inputCost = (params.inputTokens / 1000) * pricing.input;
-    const outputCost = (params.outputTokens / 1000) * pricing.output;
+    return {
+      word: this.extractWord(content, params.normalization),
+      rawText: content,
+      sent,
+      stopReason: choice.finish_reason ?? null,
+      usage: this.chatCompletionUsage(data),
+    };
+  }
+}
+
+// ==================== Custom Endpoint Provider ====================
+
+export const CUSTOM_ENDPOINT_PREFIX = 'custom-';
+
+// llama.cpp, vLLM and Ollama all accept these through their OpenAI-compatible APIs
+export const DEFAULT_ENDPOINT_CAPABILITIES: ModelCapabilities = {
+  temperature: { min: 0, max: 2 },
+  topK: true,
+  topP: true,
+  logprobs: false,
+  systemPrompt: true,
+  maxOutputTokens: 4096,
+};
+
+/**
+ * Any OpenAI-compatible server the user points us at. Reuses the OpenAI
+ * chat-completions path; the endpoint's capabilities decide which sampling
+ * parameters are sent. Keys are optional and local models are free unless the
+ * user prices them.
+ */
+class CustomEndpointProvider extends OpenAIProvider {
+  id: string;
+  name: string;
+  baseUrl: string;
+  requiresKey = false;
+  supportsBatch = false; // Compatible servers rarely implement the Batch API
+  protected defaultCapabilities: ModelCapabilities;
+
+  constructor(endpoint: CustomEndpoint) {
+    super();
+    this.id = endpoint.id;
+    this.name = endpoint.name;
+    this.baseUrl = endpoint.baseUrl.replace(/\/+$/, '');
+    this.defaultCapabilities = endpoint.capabilities;
+  }
 
-    return inputCost + outputCost;
+  // Keys are optional and servers use their own formats; the probe decides
+  matchesKeyFormat(): boolean {
+    return true;
   }
+
+  protected requestHeaders(key: string): Record<string, string> {
+    return key ? super.requestHeaders(key) : { 'Content-Type': 'application/json' };
+  }
+
+  async listModels(key: string): Promise<string[]> {
+    const models = await super.listModels(key);
+    return models.map(model => `${this.id}/${model}`);
+  }
+
+  // Whatever the server serves is assumed to be a chat model
+  protected isChatModel(): boolean {
+    return true;
+  }
+
+  async sample(params: SampleParams, key: string): Promise<SampleResult> {
+    return super.sample({ ...params, model: this.remoteModel(params.model) }, key);
+  }
+
+  async probabilities(params: SampleParams, key: string): Promise<ProbabilityResult> {
+    return super.probabilities({ ...params, model: this.remoteModel(params.model) }, key);
+  }
+
+
+  // Strip our `${id}/` namespace to get the name the server expects
+  private remoteModel(modelId: string): string {
+    const prefix = `${this.id}/`;
+    return modelId.startsWith(prefix) ? modelId.slice(prefix.length) : modelId;
+  }
+}
+
+/**
+ * Provider data for a custom endpoint, in the same shape as PROVIDER_DATA.
+ */
+export function endpointProviderData(endpoint: CustomEndpoint): Provider {
+  return {
+    id: endpoint.id,
+    name: endpoint.name,
+    icon: '🔌',
+    accentColor: 'slate',
+    baseUrl: endpoint.baseUrl,
+    models: endpoint.models.map(model => ({
+      id: `${endpoint.id}/${model}`,
+      providerId: endpoint.id,
+      name: model,
+      generation: 'custom',
+      inputCostPer1k: 0,
+      outputCostPer1k: 0,
+      capabilities: endpoint.capabilities,
+    })),
+  };
 }
 
 // ==================== Rate Limiter ====================
 
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = {
+  requestsPerMinute: 60,
+  tokensPerMinute: 100000,
+  maxConcurrent: 5,
+};
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60000;
+
 interface QueueItem<T> {
   fn: () => Promise<T>;
+  tokens: number;
   resolve: (value: T) => void;
   reject: (error: Error) => void;
 }
 
+/**
+ * Token-bucket limiter for one provider. Requests and tokens each have a
+ * bucket refilling at its per-minute rate; the next queued call starts once
+ * both buckets cover it and a concurrency slot is free. A 429 or 529 pauses
+ * the provider for its Retry-After, or for an interval that doubles with each
+ * consecutive one.
+ */
 class RateLimiter {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private queue: QueueItem<any>[] = [];
-  private processing = false;
-  private interval: number;
-  private lastRequestTime = 0;
+  private limits: RateLimitSettings;
+  private requestBucket: number;
+  private tokenBucket: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private consecutiveBackoffs = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(limits: RateLimitSettings = DEFAULT_RATE_LIMITS) {
+    this.limits = sanitizeLimits(limits);
+    this.requestBucket = this.limits.requestsPerMinute;
+    this.tokenBucket = this.limits.tokensPerMinute;
+  }
 
-  constructor(requestsPerMinute: number) {
-    this.interval = 60000 / requestsPerMinute; // ms between requests
+  configure(limits: RateLimitSettings): void {
+    this.refill();
+    this.limits = sanitizeLimits(limits);
+    this.requestBucket = Math.min(this.requestBucket, this.limits.requestsPerMinute);
+    this.tokenBucket = Math.min(this.tokenBucket, this.limits.tokensPerMinute);
+    this.drain();
   }
 
-  async enqueue<T>(fn: () => Promise<T>): Promise<T> {
+  async enqueue<T>(fn: () => Promise<T>, tokens = 0): Promise<T> {
     return new Promise<T>((resolve, reject) => {
-      this.queue.push({ fn, resolve, reject } as QueueItem<T>);
-      this.processQueue();
+      this.queue.push({ fn, tokens, resolve, reject } as QueueItem<T>);
+      this.drain();
     });
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.processing || this.queue.length === 0) {
-      return;
-    }
-
-    this.processing = true;
+  /**
+   * Correct the token bucket once a call reports what it actually used.
+   */
+  settle(estimatedTokens: number, actualTokens: number): void {
+    this.tokenBucket = Math.min(
+      this.limits.tokensPerMinute,
+      this.tokenBucket + estimatedTokens - actualTokens
+    );
+  }
 
-    while (this.queue.length > 0) {
-      const item = this.queue.shift()!;
+  private refill(): void {
+    const now = Date.now();
+    const minutes = (now - this.lastRefill) / 60000;
+    this.lastRefill = now;
+    this.requestBucket = Math.min(
+      this.limits.requestsPerMinute,
+      this.requestBucket + minutes * this.limits.requestsPerMinute
+    );
+    this.tokenBucket = Math.min(
+      this.limits.tokensPerMinute,
+      this.tokenBucket + minutes * this.limits.tokensPerMinute
+    );
+  }
 
-      // Ensure minimum interval between requests
-      const now = Date.now();
-      const timeSinceLastRequest = now - this.lastRequestTime;
-      if (timeSinceLastRequest < this.interval) {
-        await new Promise(resolve => setTimeout(resolve, this.interval - timeSinceLastRequest));
-      }
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.refill();
 
-      try {
-        const result = await item.fn();
-        item.resolve(result);
-      } catch (error) {
-        item.reject(error instanceof Error ? error : new Error(String(error)));
+    while (this.queue.length > 0 && this.inFlight < this.limits.maxConcurrent) {
+      const wait = this.waitFor(this.queue[0].tokens);
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
       }
 
-      this.lastRequestTime = Date.now();
+      const item = this.queue.shift()!;
+      this.requestBucket -= 1;
+      this.tokenBucket -= item.tokens;
+      this.inFlight++;
+
+      item.fn()
+        .then(
+          value => {
+            this.consecutiveBackoffs = 0;
+            item.resolve(value);
+          },
+          error => {
+            this.backOff(error);
+            item.reject(error instanceof Error ? error : new Error(String(error)));
+          }
+        )
+        .finally(() => {
+          this.inFlight--;
+          this.drain();
+        });
     }
+  }
 
-    this.processing = false;
+  // Milliseconds until the head of the queue may start
+  private waitFor(tokens: number): number {
+    // A call bigger than the whole bucket waits for a full bucket, not forever
+    const needed = Math.min(tokens, this.limits.tokensPerMinute);
+    const requestWait = ((1 - this.requestBucket) / this.limits.requestsPerMinute) * 60000;
+    const tokenWait = ((needed - this.tokenBucket) / this.limits.tokensPerMinute) * 60000;
+    return Math.ceil(Math.max(this.pausedUntil - Date.now(), requestWait, tokenWait, 0));
+  }
+
+  private backOff(error: unknown): void {
+    if (!(error instanceof ProviderError) || (error.status !== 429 && error.status !== 529)) return;
+
+    this.consecutiveBackoffs++;
+    const delay = error.retryAfterMs ??
+      Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (this.consecutiveBackoffs - 1));
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
   }
 }
 
+// Zero or negative limits would stall the queue forever
+function sanitizeLimits(limits: RateLimitSettings): RateLimitSettings {
+  return {
+    requestsPerMinute: Math.max(1, limits.requestsPerMinute),
+    tokensPerMinute: Math.max(1, limits.tokensPerMinute),
+    maxConcurrent: Math.max(1, Math.floor(limits.maxConcurrent)),
+  };
+}
+
 // ==================== Provider Registry ====================
 
+type BatchProvider = BaseProvider &
+  Required<Pick<ProviderInterface, 'submitBatch' | 'batchStatus' | 'batchResults' | 'cancelBatch'>>;
+
 class ProviderRegistry {
   private providers = new Map<string, BaseProvider>();
   private rateLimiters = new Map<string, RateLimiter>();
+  private customEndpoints: CustomEndpoint[] = [];
+  private rateLimits: Record<string, RateLimitSettings> = {};
+  private catalog: ModelCatalog = { discoveredModels: {}, pricingOverrides: {} };
+  // Rebuilt whenever endpoints or the catalog change; findModel runs per sample
+  private providerData: Provider[] = [];
 
   constructor() {
     // Register built-in providers
     this.register(new AnthropicProvider());
     this.register(new OpenAIProvider());
     this.register(new KimiProvider());
+    this.register(new GeminiProvider());
+    this.register(new MistralProvider());
+    this.rebuildProviderData();
+  }
+
+  /**
+   * Replace the registered custom endpoints. Called on the main thread when the
+   * user edits them and in the runner worker before each run.
+   */
+  setCustomEndpoints(endpoints: CustomEndpoint[]): void {
+    for (const id of Array.from(this.providers.keys())) {
+      if (id.startsWith(CUSTOM_ENDPOINT_PREFIX)) {
+        this.providers.delete(id);
+        this.rateLimiters.delete(id);
+      }
+    }
+
+    this.customEndpoints = endpoints;
+    endpoints.forEach(endpoint => this.register(new CustomEndpointProvider(endpoint)));
+    this.rebuildProviderData();
+  }
+
+  /**
+   * Replace the discovered models and pricing overrides. Like the custom
+   * endpoints, the runner worker receives these with each run.
+   */
+  setModelCatalog(catalog: ModelCatalog): void {
+    this.catalog = catalog;
+    this.rebuildProviderData();
+  }
+
+  /**
+   * Built-in provider data followed by the registered custom endpoints, each
+   * with its discovered models appended and the pricing catalog applied.
+   */
+  getProviderData(): Provider[] {
+    return this.providerData;
+  }
+
+  findModel(modelId: string): Model | undefined {
+    return this.providerData.flatMap(p => p.models).find(m => m.id === modelId);
+  }
+
+  private rebuildProviderData(): void {
+    this.providerData = [...PROVIDER_DATA, ...this.customEndpoints.map(endpointProviderData)]
+      .map(provider => this.withCatalog(provider));
+  }
+
+  // Prices come from user overrides, then the model's own price, then KNOWN_PRICING
+  private withCatalog(provider: Provider): Provider {
+    const listed = new Set(provider.models.map(m => m.id));
+    const isEndpoint = provider.id.startsWith(CUSTOM_ENDPOINT_PREFIX);
+
+    const discovered = (this.catalog.discoveredModels[provider.id] ?? [])
+      .filter(id => !listed.has(id))
+      .map((id): Model => {
+        const pricing = KNOWN_PRICING[id];
+        return {
+          id,
+          providerId: provider.id,
+          name: isEndpoint ? id.slice(provider.id.length + 1) : id,
+          generation: 'discovered',
+          inputCostPer1k: pricing?.inputCostPer1k ?? 0,
+          outputCostPer1k: pricing?.outputCostPer1k ?? 0,
+          capabilities: this.getProvider(provider.id)?.capabilitiesFor(id) ?? DEFAULT_ENDPOINT_CAPABILITIES,
+          discovered: true,
+          // Local endpoints are free unless the user says otherwise
+          pricingUnknown: !pricing && !isEndpoint,
+        };
+      });
+
+    const models = [...provider.models, ...discovered].map(model => {
+      const override = this.catalog.pricingOverrides[model.id];
+      return override ? { ...model, ...override, pricingUnknown: false } : model;
+    });
+
+    return { ...provider, models };
+  }
+
+  requiresKey(providerId: string): boolean {
+    return this.getProvider(providerId)?.requiresKey ?? true;
   }
 
   register(provider: BaseProvider): void {
     this.providers.set(provider.id, provider);
-    // Default rate limit: 60 requests per minute
-    this.rateLimiters.set(provider.id, new RateLimiter(60));
+    this.rateLimiters.set(provider.id, new RateLimiter(this.rateLimitsFor(provider.id)));
+  }
+
+  rateLimitsFor(providerId: string): RateLimitSettings {
+    return this.rateLimits[providerId] ?? DEFAULT_RATE_LIMITS;
+  }
+
+  /**
+   * Apply user-set limits from UserSettings; providers without an entry use
+   * the defaults. Queued calls are kept and continue at the new pace.
+   */
+  setRateLimits(limits: Record<string, RateLimitSettings>): void {
+    this.rateLimits = limits;
+    this.rateLimiters.forEach((limiter, providerId) => limiter.configure(this.rateLimitsFor(providerId)));
   }
 
   getProvider(providerId: string): BaseProvider | undefined {
@@ -401,38 +1534,109 @@ class ProviderRegistry {
     }
 
     try {
-      const isValid = await provider.validateKey(key);
-      return { isValid };
-    } catch (error) {
-      return {
-        isValid: false,
-        error: error instanceof Error ? error.message : 'Validation failed'
+      // The probe lists models, so discovery comes with every validation
+      const modelIds = await provider.validateKey(key);
+      this.catalog = {
+        ...this.catalog,
+        discoveredModels: { ...this.catalog.discoveredModels, [providerId]: modelIds },
       };
+      this.rebuildProviderData();
+      const found = new Set(modelIds);
+      const models = this.providerData.find(p => p.id === providerId)?.models ?? [];
+      return { isValid: true, models: models.filter(m => found.has(m.id)) };
+    } catch (error) {
+      const failure = describeKeyFailure(provider.name, error);
+      // Only a definite refusal invalidates the key; an unreachable API doesn't
+      return { isValid: !failure.refused, error: failure.message };
     }
   }
 
-  async sample(providerId: string, params: SampleParams, key: string): Promise<string> {
+  async sample(providerId: string, params: SampleParams, key: string): Promise<SampleResult> {
     const provider = this.getProvider(providerId);
     if (!provider) {
       throw new Error(`Unknown provider: ${providerId}`);
     }
 
-    const rateLimiter = this.rateLimiters.get(providerId)!;
-    return rateLimiter.enqueue(() => provider.sample(params, key));
+    return this.throttled(providerId, params, () => provider.sample(params, key));
   }
 
-  estimateCost(providerId: string, params: CostParams): number {
+  supportsProbabilities(providerId: string, modelId: string): boolean {
     const provider = this.getProvider(providerId);
-    if (!provider) {
-      return 0;
+    return typeof provider?.probabilities === 'function' && provider.capabilitiesFor(modelId).logprobs;
+  }
+
+  async probabilities(providerId: string, params: SampleParams, key: string): Promise<ProbabilityResult> {
+    const provider = this.getProvider(providerId);
+    if (!provider?.probabilities) {
+      throw new Error(`Provider does not report token probabilities: ${providerId}`);
     }
 
-    return provider.estimateCost(params);
+    return this.throttled(providerId, params, () => provider.probabilities!(params, key));
   }
 
-  setRateLimit(providerId: string, requestsPerMinute: number): void {
-    this.rateLimiters.set(providerId, new RateLimiter(requestsPerMinute));
+  supportsBatch(providerId: string): boolean {
+    const provider = this.getProvider(providerId);
+    return !!provider?.supportsBatch && typeof provider.submitBatch === 'function';
   }
+
+  private batchProvider(providerId: string): BatchProvider {
+    const provider = this.getProvider(providerId);
+    if (!provider || !this.supportsBatch(providerId)) {
+      throw new Error(`Provider has no batch API: ${providerId}`);
+    }
+    return provider as BatchProvider;
+  }
+
+  // Batch calls are few and cheap, so they only take a request slot
+  async submitBatch(providerId: string, requests: BatchRequest[], key: string): Promise<string> {
+    const provider = this.batchProvider(providerId);
+    return this.rateLimiters.get(providerId)!.enqueue(() => provider.submitBatch(requests, key));
+  }
+
+  async batchStatus(providerId: string, batchId: string, key: string): Promise<BatchStatus> {
+    const provider = this.batchProvider(providerId);
+    return this.rateLimiters.get(providerId)!.enqueue(() => provider.batchStatus(batchId, key));
+  }
+
+  async batchResults(providerId: string, batchId: string, requests: BatchRequest[], key: string): Promise<BatchItemResult[]> {
+    const provider = this.batchProvider(providerId);
+    return this.rateLimiters.get(providerId)!.enqueue(() => provider.batchResults(batchId, requests, key));
+  }
+
+  async cancelBatch(providerId: string, batchId: string, key: string): Promise<void> {
+    const provider = this.batchProvider(providerId);
+    return this.rateLimiters.get(providerId)!.enqueue(() => provider.cancelBatch(batchId, key));
+  }
+
+  // Reserve the estimated tokens up front, then settle against reported usage
+  private async throttled<T extends { usage: SampleResult['usage'] }>(
+    providerId: string,
+    params: SampleParams,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const rateLimiter = this.rateLimiters.get(providerId)!;
+    const estimate = estimateCallTokens(
+      [params.systemPrompt ?? '', ...(params.history ?? []).map(turn => turn.content), params.stimulus]
+        .filter(Boolean)
+        .join('\n')
+    );
+    const tokens = estimate.inputTokens + estimate.outputTokens;
+
+    const result = await rateLimiter.enqueue(call, tokens);
+    if (result.usage) {
+      rateLimiter.settle(tokens, result.usage.inputTokens + result.usage.outputTokens);
+    }
+    return result;
+  }
+
+  /**
+   * Cost at the model's catalog price. Unpriced models count as free.
+   */
+  estimateCost(params: CostParams): number {
+    const model = this.findModel(params.model);
+    return model ? costOf(model, params) : 0;
+  }
+
 }
 
 // ==================== Static Provider Data ====================
@@ -453,6 +1657,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '4.5',
         inputCostPer1k: 0.005,
         outputCostPer1k: 0.025,
+        capabilities: CLAUDE_CAPABILITIES,
       },
       {
         id: 'claude-sonnet-4-5-20250929',
@@ -461,6 +1666,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '4.5',
         inputCostPer1k: 0.003,
         outputCostPer1k: 0.015,
+        capabilities: CLAUDE_CAPABILITIES,
       },
       {
         id: 'claude-haiku-4-5-20251001',
@@ -469,6 +1675,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '4.5',
         inputCostPer1k: 0.001,
         outputCostPer1k: 0.005,
+        capabilities: CLAUDE_CAPABILITIES,
       },
       // Claude 4.1 generation
       {
@@ -478,6 +1685,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '4.1',
         inputCostPer1k: 0.015,
         outputCostPer1k: 0.075,
+        capabilities: { ...CLAUDE_CAPABILITIES, maxOutputTokens: 32000 },
       },
       // Claude 4 generation
       {
@@ -487,6 +1695,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '4',
         inputCostPer1k: 0.015,
         outputCostPer1k: 0.075,
+        capabilities: { ...CLAUDE_CAPABILITIES, maxOutputTokens: 32000 },
       },
       {
         id: 'claude-sonnet-4-20250514',
@@ -495,6 +1704,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '4',
         inputCostPer1k: 0.003,
         outputCostPer1k: 0.015,
+        capabilities: CLAUDE_CAPABILITIES,
       },
       // Claude 3.7 generation
       {
@@ -504,6 +1714,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '3.7',
         inputCostPer1k: 0.003,
         outputCostPer1k: 0.015,
+        capabilities: CLAUDE_CAPABILITIES,
       },
       // Claude 3.5 generation
       {
@@ -513,6 +1724,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '3.5',
         inputCostPer1k: 0.001,
         outputCostPer1k: 0.005,
+        capabilities: { ...CLAUDE_CAPABILITIES, maxOutputTokens: 8192 },
       },
       // Claude 3 generation (legacy)
       {
@@ -522,6 +1734,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '3',
         inputCostPer1k: 0.015,
         outputCostPer1k: 0.075,
+        capabilities: { ...CLAUDE_CAPABILITIES, maxOutputTokens: 4096 },
       },
       {
         id: 'claude-3-haiku-20240307',
@@ -530,6 +1743,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '3',
         inputCostPer1k: 0.00025,
         outputCostPer1k: 0.00125,
+        capabilities: { ...CLAUDE_CAPABILITIES, maxOutputTokens: 4096 },
       },
     ],
   },
@@ -548,6 +1762,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: 'o1',
         inputCostPer1k: 0.015,
         outputCostPer1k: 0.06,
+        capabilities: REASONING_CAPABILITIES,
       },
       {
         id: 'o1-mini',
@@ -556,6 +1771,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: 'o1',
         inputCostPer1k: 0.003,
         outputCostPer1k: 0.012,
+        capabilities: { ...REASONING_CAPABILITIES, systemPrompt: false, maxOutputTokens: 65536 },
       },
       {
         id: 'o3-mini',
@@ -564,6 +1780,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: 'o3',
         inputCostPer1k: 0.0011,
         outputCostPer1k: 0.0044,
+        capabilities: REASONING_CAPABILITIES,
       },
       // GPT-4 series
       {
@@ -573,6 +1790,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '4o',
         inputCostPer1k: 0.0025,
         outputCostPer1k: 0.01,
+        capabilities: GPT_CAPABILITIES,
       },
       {
         id: 'gpt-4o-mini',
@@ -581,6 +1799,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '4o',
         inputCostPer1k: 0.00015,
         outputCostPer1k: 0.0006,
+        capabilities: GPT_CAPABILITIES,
       },
       {
         id: 'gpt-4-turbo',
@@ -589,6 +1808,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '4',
         inputCostPer1k: 0.01,
         outputCostPer1k: 0.03,
+        capabilities: { ...GPT_CAPABILITIES, maxOutputTokens: 4096 },
       },
     ],
   },
@@ -606,6 +1826,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '1',
         inputCostPer1k: 0.001,
         outputCostPer1k: 0.002,
+        capabilities: MOONSHOT_CAPABILITIES,
       },
       {
         id: 'moonshot-v1-32k',
@@ -614,6 +1835,7 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '1',
         inputCostPer1k: 0.002,
         outputCostPer1k: 0.004,
+        capabilities: MOONSHOT_CAPABILITIES,
       },
       {
         id: 'moonshot-v1-128k',
@@ -622,6 +1844,97 @@ export const PROVIDER_DATA: Provider[] = [
         generation: '1',
         inputCostPer1k: 0.006,
         outputCostPer1k: 0.012,
+        capabilities: MOONSHOT_CAPABILITIES,
+      },
+    ],
+  },
+  {
+    id: 'gemini',
+    name: 'Gemini',
+    icon: '✨',
+    accentColor: 'sky',
+    baseUrl: 'https://generativelanguage.googleapis.com',
+    models: [
+      {
+        id: 'gemini-2.5-pro',
+        providerId: 'gemini',
+        name: 'Gemini 2.5 Pro',
+        generation: '2.5',
+        inputCostPer1k: 0.00125,
+        outputCostPer1k: 0.01,
+        capabilities: GEMINI_PRO_CAPABILITIES,
+      },
+      {
+        id: 'gemini-2.5-flash',
+        providerId: 'gemini',
+        name: 'Gemini 2.5 Flash',
+        generation: '2.5',
+        inputCostPer1k: 0.0003,
+        outputCostPer1k: 0.0025,
+        capabilities: GEMINI_FLASH_CAPABILITIES,
+      },
+      {
+        id: 'gemini-2.5-flash-lite',
+        providerId: 'gemini',
+        name: 'Gemini 2.5 Flash-Lite',
+        generation: '2.5',
+        inputCostPer1k: 0.0001,
+        outputCostPer1k: 0.0004,
+        capabilities: GEMINI_FLASH_CAPABILITIES,
+      },
+      {
+        id: 'gemini-2.0-flash',
+        providerId: 'gemini',
+        name: 'Gemini 2.0 Flash',
+        generation: '2.0',
+        inputCostPer1k: 0.0001,
+        outputCostPer1k: 0.0004,
+        capabilities: { ...GEMINI_CAPABILITIES, maxOutputTokens: 8192 },
+      },
+    ],
+  },
+  {
+    id: 'mistral',
+    name: 'Mistral',
+    icon: '🌬️',
+    accentColor: 'orange',
+    baseUrl: 'https://api.mistral.ai',
+    models: [
+      {
+        id: 'mistral-large-latest',
+        providerId: 'mistral',
+        name: 'Mistral Large',
+        generation: 'large',
+        inputCostPer1k: 0.002,
+        outputCostPer1k: 0.006,
+        capabilities: MISTRAL_CAPABILITIES,
+      },
+      {
+        id: 'mistral-medium-latest',
+        providerId: 'mistral',
+        name: 'Mistral Medium',
+        generation: 'medium',
+        inputCostPer1k: 0.0004,
+        outputCostPer1k: 0.002,
+        capabilities: MISTRAL_CAPABILITIES,
+      },
+      {
+        id: 'mistral-small-latest',
+        providerId: 'mistral',
+        name: 'Mistral Small',
+        generation: 'small',
+        inputCostPer1k: 0.0001,
+        outputCostPer1k: 0.0003,
+        capabilities: MISTRAL_CAPABILITIES,
+      },
+      {
+        id: 'open-mistral-nemo',
+        providerId: 'mistral',
+        name: 'Mistral Nemo',
+        generation: 'nemo',
+        inputCostPer1k: 0.00015,
+        outputCostPer1k: 0.00015,
+        capabilities: MISTRAL_CAPABILITIES,
       },
     ],
   },
@@ -634,10 +1947,14 @@ export const providers = new ProviderRegistry();
 // ==================== Exports ====================
 
 export {
+  ProviderError,
   BaseProvider,
   AnthropicProvider,
   OpenAIProvider,
   KimiProvider,
+  GeminiProvider,
+  MistralProvider,
+  CustomEndpointProvider,
   RateLimiter,
   ProviderRegistry,
 };
\ No newline at end of file
@@ -0,0 +1,185 @@
+/**
+ * One Word - Runner Client
+ *
+ * Main-thread handle on the experiment runner worker. Mirrors the
+ * ExperimentRunner control API and keeps a local snapshot of progress from the
+ * event stream so the UI can read it synchronously. Lives at module scope, so a
+ * run keeps going (and can be re-attached to) as the user moves between sections.
+ */
+
+import type {
+  Experiment,
+  NormalizationPipeline,
+  RunEventListener,
+  RunnerCommand,
+  RunnerMessage,
+  RunnerRequest,
+  RunProgress,
+} from './types';
+import { storage } from './storage';
+
+interface PendingRequest {
+  resolve: (progress: RunProgress | null) => void;
+  reject: (error: Error) => void;
+}
+
+export class RunnerClient {
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private listeners = new Set<RunEventListener>();
+  private progress = new Map<string, RunProgress>();
+
+  private ensureWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./runner.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<RunnerMessage>) => {
+        this.handleMessage(event.data);
+      });
+      this.worker.addEventListener('error', (event) => {
+        console.error('[RUNNER] Worker error:', event.message);
+        this.resetWorker(new Error(`Experiment runner failed: ${event.message}`));
+      });
+      this.worker.addEventListener('messageerror', () => {
+        console.error('[RUNNER] Worker message could not be deserialized');
+        this.resetWorker(new Error('Experiment runner sent an unreadable message'));
+      });
+    }
+    return this.worker;
+  }
+
+  /**
+   * Fail every outstanding request and drop the worker, so callers aren't left
+   * waiting on a reply that will never come and the next call starts afresh.
+   */
+  private resetWorker(error: Error): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+    this.progress.clear();
+  }
+
+  private handleMessage(message: RunnerMessage): void {
+    if (message.type === 'response') {
+      const request = this.pending.get(message.requestId);
+      if (!request) return;
+      this.pending.delete(message.requestId);
+
+      if (message.error) {
+        request.reject(new Error(message.error));
+      } else {
+        request.resolve(message.progress ?? null);
+      }
+      return;
+    }
+
+    const { event } = message;
+    switch (event.type) {
+      case 'model-started':
+      case 'config-started':
+      case 'sample-completed':
+      case 'sample-failed':
+        this.progress.set(event.experimentId, event.progress);
+        break;
+      case 'completed':
+      case 'failed':
+      case 'cancelled':
+        this.progress.delete(event.experimentId);
+        break;
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[RUNNER] Event listener error:', error);
+      }
+    });
+  }
+
+  private send(command: RunnerCommand): Promise<RunProgress | null> {
+    const worker = this.ensureWorker();
+    const requestId = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      const request: RunnerRequest = { requestId, command };
+      worker.postMessage(request);
+    });
+  }
+
+  // ==================== Control Methods ====================
+
+  async start(experiment: Experiment, apiKeys: Record<string, string>): Promise<void> {
+    this.assertVaultUnlocked();
+    const progress = await this.send({
+      type: 'start',
+      experiment,
+      apiKeys,
+      settings: storage.getSettings(),
+      endpoints: storage.getCustomEndpoints(),
+      catalog: storage.getModelCatalog(),
+    });
+    if (progress) this.progress.set(experiment.id, progress);
+  }
+
+  async resume(experiment: Experiment, apiKeys: Record<string, string>): Promise<void> {
+    this.assertVaultUnlocked();
+    const progress = await this.send({
+      type: 'resume',
+      experiment,
+      apiKeys,
+      settings: storage.getSettings(),
+      endpoints: storage.getCustomEndpoints(),
+      catalog: storage.getModelCatalog(),
+    });
+    if (progress) this.progress.set(experiment.id, progress);
+    storage.clearInterruptedExperiment(experiment.id);
+  }
+
+  // A locked vault hands out no keys, so a run would only fail provider by provider
+  private assertVaultUnlocked(): void {
+    if (storage.getVaultState() === 'locked') {
+      throw new Error('Unlock the key vault before running experiments');
+    }
+  }
+
+  async discardInterrupted(experiment: Experiment): Promise<void> {
+    await this.send({ type: 'discard', experiment });
+    storage.clearInterruptedExperiment(experiment.id);
+  }
+
+  async renormalize(experiment: Experiment, pipeline: NormalizationPipeline): Promise<void> {
+    await this.send({ type: 'renormalize', experiment, pipeline });
+  }
+
+  async abort(experimentId: string): Promise<void> {
+    await this.send({ type: 'abort', experimentId });
+    this.progress.delete(experimentId);
+  }
+
+  subscribe(listener: RunEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getProgress(experimentId: string): RunProgress | null {
+    const progress = this.progress.get(experimentId);
+    return progress ? { ...progress } : null;
+  }
+
+  isRunning(experimentId: string): boolean {
+    return this.progress.has(experimentId);
+  }
+
+  getRunningExperiments(): string[] {
+    return Array.from(this.progress.keys());
+  }
+}
+
+// ==================== Singleton Instance ====================
+
+export const experimentRunner = new RunnerClient();
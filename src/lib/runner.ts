@@ -2,43 +2,283 @@
  * One Word - Experiment Runner
  *
  * Orchestrates experiment execution with progress tracking, error handling,
- * and result aggregation
+ * and result aggregation. Runs off the main thread inside runner.worker.ts;
+ * the UI talks to it through runner-client.ts.
  */
 
 import type {
+  AnalyticDistribution,
   Experiment,
   ExperimentConfig,
+  AdaptiveSampling,
   Sample,
+  SampleFailure,
+  FailureKind,
   RunProgress,
+  RunEvent,
+  RunEventListener,
+  UserSettings,
+  ExperimentStopReason,
   ExperimentResults,
   WordFrequency,
   ModelResult,
+  NormalizationPipeline,
+  ResultCube,
+  EntropyEstimate,
   SampleParams,
+  SampleResult,
+  BatchJob,
+  BatchRequest,
+  TokenUsage,
 } from './types';
-import { providers, PROVIDER_DATA } from './providers';
+import {
+  providers,
+  ProviderError,
+  classifyFailure,
+  isRetryableFailure,
+} from './providers';
 import { storage } from './storage';
 import { autoSubmitExperiment } from './community';
+import { estimateCallTokens } from './tokens';
+import { DEFAULT_PROMPT, promptFor, renderPrompt } from './prompts';
+import { stimulusFor } from './stimuli';
+import { applyContext, callText, contextFor } from './contexts';
+import { analyzeWords } from './entropy';
+import { renormalizeSamples } from './normalize';
 
 // ==================== Progress Tracking ====================
 
 interface RunningExperiment {
   experiment: Experiment;
+  settings: UserSettings;
+  apiKeys: Record<string, string>; // Kept to cancel provider batch jobs on abort
+  spendLimit: SpendLimit | null;
   abortController: AbortController;
   progress: RunProgress;
   samples: Sample[];
+  failures: SampleFailure[];
+  analytic: AnalyticDistribution[];
+  analyticCost: number; // Spent on probability calls, which produce no samples
+  startedModels: Set<string>;
+  startedCells: Set<string>;
   startTime: number;
+  initialProcessedCalls: number; // Samples and failures carried over from an interrupted run
+  lateSamples: number; // Landed after an abort; billed, so still kept
 }
 
+interface SampleTask {
+  providerId: string;
+  modelId: string;
+  modelName: string;
+  config: ExperimentConfig;
+  sampleIndex: number;
+  apiKey: string;
+}
+
+type CellTask = Omit<SampleTask, 'sampleIndex'>;
+
+interface SpendLimit {
+  amount: number; // Cap on progress.runningCost (includes spend carried over on resume)
+  kind: ExperimentStopReason['kind'];
+}
+
+interface AdaptiveCell {
+  task: CellTask;
+  nextIndex: number;
+  outstanding: number;
+  wordCounts: Map<string, number>;
+  lastEntropy: number | null;
+}
+
+const MAX_SAMPLE_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const BATCH_POLL_INTERVAL_MS = 30000;
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      resolve();
+    }, { once: true });
+  });
+
+const shannonEntropy = (counts: number[]): number => {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  return -counts.reduce((sum, count) => {
+    const p = count / total;
+    return sum + (p > 0 ? p * Math.log2(p) : 0);
+  }, 0);
+};
+
+// Ranked word frequencies for a group of samples
+const wordFrequencies = (samples: Sample[]): WordFrequency[] => {
+  const counts = new Map<string, number>();
+  samples.forEach(sample => counts.set(sample.word, (counts.get(sample.word) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([word, count]) => ({ word, count, percentage: (count / samples.length) * 100 }))
+    .sort((a, b) => b.count - a.count);
+};
+
+// Word frequencies within each group; samples keyed undefined are left out
+const groupWords = <K extends string | number>(
+  samples: Sample[],
+  keyOf: (sample: Sample) => K | undefined
+): Record<K, WordFrequency[]> => {
+  const groups = new Map<K, Sample[]>();
+  samples.forEach(sample => {
+    const key = keyOf(sample);
+    if (key === undefined) return;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(sample);
+  });
+
+  const grouped = {} as Record<K, WordFrequency[]>;
+  groups.forEach((group, key) => {
+    grouped[key] = wordFrequencies(group);
+  });
+  return grouped;
+};
+
+const budgetMessage = (limit: SpendLimit): string =>
+  limit.kind === 'budget'
+    ? `Stopped before exceeding the $${limit.amount.toFixed(2)} experiment budget`
+    : `Stopped before exceeding the monthly budget ($${limit.amount.toFixed(2)} remaining)`;
+
+const cellKey = (modelId: string, config: ExperimentConfig): string =>
+  `${modelId}|${config.temperature}|${config.topK}|${config.promptId ?? DEFAULT_PROMPT.id}|${config.stimulus ?? ''}|${config.contextId ?? ''}`;
+
+// One sample slot within a cell; a resumed run retries slots that failed
+const slotKey = (modelId: string, config: ExperimentConfig, sampleIndex: number | undefined): string =>
+  `${cellKey(modelId, config)}|${sampleIndex}`;
+
+const analyticCost = (analytic: AnalyticDistribution[]): number =>
+  analytic.reduce((sum, a) => sum + (a.cost ?? 0), 0);
+
+// Estimated usage of one call, before the provider reports any
+const callTokens = (experiment: Experiment, config: ExperimentConfig): TokenUsage =>
+  estimateCallTokens(callText(promptFor(experiment, config), stimulusFor(experiment, config), contextFor(experiment, config)));
+
+// Unique within a model's batch, and stable across reloads for the same experiment
+const batchCustomId = (experiment: Experiment, task: SampleTask): string => {
+  const configIndex = experiment.configs.findIndex(c => c === task.config);
+  return `c${configIndex}-s${task.sampleIndex}`;
+};
+
 // ==================== Experiment Runner ====================
 
 export class ExperimentRunner {
   private runningExperiments = new Map<string, RunningExperiment>();
+  private listeners = new Set<RunEventListener>();
+
+  /**
+   * Listen for run events from every experiment. Returns an unsubscribe function.
+   */
+  subscribe(listener: RunEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async start(
+    experiment: Experiment,
+    apiKeys: Record<string, string>,
+    settings: UserSettings
+  ): Promise<void> {
+    await this.launch(experiment, apiKeys, settings, [], []);
+  }
+
+  /**
+   * Resume an experiment that was interrupted mid-run (tab closed, crash).
+   * Only the (model, config, sample index) cells missing from storage are run;
+   * previously saved samples are folded into progress, results and cost.
+   */
+  async resume(
+    experiment: Experiment,
+    apiKeys: Record<string, string>,
+    settings: UserSettings
+  ): Promise<void> {
+    const [existingSamples, existingFailures] = await Promise.all([
+      storage.getSamplesByExperiment(experiment.id),
+      storage.getFailuresByExperiment(experiment.id),
+    ]);
+    const failures = await this.pruneStaleFailures(existingSamples, existingFailures);
+    await this.launch(experiment, apiKeys, settings, existingSamples, failures);
+  }
+
+  /**
+   * Close out an interrupted experiment without running the missing samples.
+   */
+  async discardInterrupted(experiment: Experiment): Promise<void> {
+    const [samples, storedFailures] = await Promise.all([
+      storage.getSamplesByExperiment(experiment.id),
+      storage.getFailuresByExperiment(experiment.id),
+    ]);
+    const failures = await this.pruneStaleFailures(samples, storedFailures);
 
-  async start(experiment: Experiment, apiKeys: Record<string, string>): Promise<void> {
+    experiment.status = 'cancelled';
+    experiment.completedAt = new Date().toISOString();
+    experiment.actualCost = samples.reduce((sum, sample) => sum + sample.cost, 0) +
+      analyticCost(experiment.analytic ?? []);
+
+    await storage.saveExperiment(experiment);
+
+    if (samples.length > 0) {
+      const results = this.generateResults(experiment, samples, failures, experiment.analytic);
+      await storage.saveResults(results);
+    }
+  }
+
+  /**
+   * Regroup a stopped experiment's stored raw text under another pipeline and
+   * save the results that gives, without sampling again.
+   */
+  async renormalize(experiment: Experiment, pipeline: NormalizationPipeline): Promise<void> {
+    if (this.runningExperiments.has(experiment.id)) {
+      throw new Error('Experiment is still running');
+    }
+
+    const [samples, failures, previous] = await Promise.all([
+      storage.getSamplesByExperiment(experiment.id),
+      storage.getFailuresByExperiment(experiment.id),
+      storage.getResults(experiment.id),
+    ]);
+
+    const results = this.generateResults(
+      experiment,
+      renormalizeSamples(samples, pipeline),
+      failures,
+      experiment.analytic ?? previous?.analytic
+    );
+    await storage.saveResults({ ...results, normalization: pipeline });
+  }
+
+  /**
+   * Delete failure records for slots that have since produced a sample, from
+   * runs made before failures were superseded as they were retried.
+   */
+  private async pruneStaleFailures(samples: Sample[], failures: SampleFailure[]): Promise<SampleFailure[]> {
+    const sampled = new Set(samples.map(s => slotKey(s.modelId, s, s.sampleIndex)));
+    const stale = failures.filter(f => sampled.has(slotKey(f.modelId, f, f.sampleIndex)));
+    await Promise.all(stale.map(f => storage.deleteFailure(f.id)));
+    return failures.filter(f => !stale.includes(f));
+  }
+
+  private async launch(
+    experiment: Experiment,
+    apiKeys: Record<string, string>,
+    settings: UserSettings,
+    existingSamples: Sample[],
+    existingFailures: SampleFailure[]
+  ): Promise<void> {
     if (this.runningExperiments.has(experiment.id)) {
       throw new Error('Experiment is already running');
     }
 
+    const spendLimit = await this.resolveSpendLimit(experiment, settings);
+
     // Validate we have keys for all required providers
     const requiredProviders = new Set<string>();
     experiment.selectedModels.forEach(modelId => {
@@ -49,7 +289,7 @@ export class ExperimentRunner {
     });
 
     const missingKeys = Array.from(requiredProviders).filter(
-      providerId => !apiKeys[providerId]
+      providerId => !apiKeys[providerId] && providers.requiresKey(providerId)
     );
 
     if (missingKeys.length > 0) {
@@ -57,179 +297,833 @@ export class ExperimentRunner {
     }
 
     const abortController = new AbortController();
+    const existingAnalytic = experiment.analytic ?? [];
+    const runningCost = existingSamples.reduce((sum, sample) => sum + sample.cost, 0) +
+      analyticCost(existingAnalytic);
 
     const runningExperiment: RunningExperiment = {
       experiment,
+      settings,
+      apiKeys,
+      spendLimit,
       abortController,
       progress: {
         totalCalls: experiment.totalCalls,
-        completedCalls: 0,
+        completedCalls: existingSamples.length,
+        failedCalls: existingFailures.length,
         currentModel: '',
         currentConfig: { temperature: 0, topK: 0 },
         estimatedTimeRemaining: 0,
-        runningCost: 0,
+        runningCost,
+        budgetRemaining: spendLimit ? spendLimit.amount - runningCost : null,
         recentWords: [],
       },
-      samples: [],
+      samples: [...existingSamples],
+      failures: [...existingFailures],
+      analytic: [...existingAnalytic],
+      analyticCost: analyticCost(existingAnalytic),
+      startedModels: new Set(),
+      startedCells: new Set(),
       startTime: Date.now(),
+      initialProcessedCalls: existingSamples.length + existingFailures.length,
+      lateSamples: 0,
     };
 
     this.runningExperiments.set(experiment.id, runningExperiment);
 
     // Update experiment status
     experiment.status = 'running';
-    experiment.startedAt = new Date().toISOString();
+    experiment.startedAt = experiment.startedAt ?? new Date().toISOString();
     await storage.saveExperiment(experiment);
 
     // Start execution
-    this.executeExperiment(runningExperiment, apiKeys).catch(error => {
+    this.executeExperiment(runningExperiment).catch(error => {
       console.error('Experiment execution error:', error);
       this.handleError(experiment.id, error);
     });
   }
 
-  private async executeExperiment(
+  private async executeExperiment(runningExperiment: RunningExperiment): Promise<void> {
+    const { experiment, settings, abortController, samples, apiKeys } = runningExperiment;
+
+    try {
+      const cellTasks = this.resolveCellTasks(experiment, apiKeys);
+      if (experiment.probabilityMode) {
+        await this.collectAnalytic(runningExperiment, cellTasks);
+        if (abortController.signal.aborted) return;
+      }
+
+      // Models without a batch API fall back to interactive calls
+      const batchTasks = experiment.executionMode === 'batch'
+        ? cellTasks.filter(task => providers.supportsBatch(task.providerId))
+        : [];
+      const interactiveTasks = cellTasks.filter(task => !batchTasks.includes(task));
+      const batches = this.executeBatches(runningExperiment, batchTasks);
+
+      const queue: SampleTask[] = [];
+      const adaptiveCells = experiment.adaptive
+        ? this.buildAdaptiveCells(interactiveTasks, samples)
+        : null;
+
+      if (adaptiveCells) {
+        adaptiveCells.forEach(cell => this.scheduleNextBatch(runningExperiment, cell, queue));
+      } else {
+        queue.push(...this.buildSampleQueue(experiment, interactiveTasks, samples));
+      }
+
+      // Worker pool: each worker pulls the next task until the queue drains or
+      // the run is aborted. Per-provider pacing is enforced by the registry.
+      // In adaptive mode a finished batch can enqueue more work, so idle workers
+      // wait while anything is still in flight.
+      let inFlight = 0;
+      const waiters: Array<() => void> = [];
+      const notify = () => waiters.splice(0).forEach(wake => wake());
+      abortController.signal.addEventListener('abort', notify, { once: true });
+
+      const worker = async () => {
+        while (!abortController.signal.aborted) {
+          const task = queue.shift();
+          if (!task) {
+            if (inFlight === 0) return;
+            await new Promise<void>(resolve => waiters.push(resolve));
+            continue;
+          }
+
+          if (this.wouldExceedBudget(runningExperiment, task, inFlight)) {
+            queue.length = 0;
+            if (!abortController.signal.aborted) {
+              await this.abort(experiment.id, {
+                kind: runningExperiment.spendLimit!.kind,
+                message: budgetMessage(runningExperiment.spendLimit!),
+              });
+            }
+            return;
+          }
+
+          inFlight++;
+          const word = await this.executeSample(runningExperiment, task);
+          const cell = adaptiveCells?.get(cellKey(task.modelId, task.config));
+          if (cell && !abortController.signal.aborted) {
+            this.recordBatchOutcome(runningExperiment, cell, word, queue);
+          }
+          inFlight--;
+          notify();
+        }
+      };
+
+      const workerCount = Math.max(1, settings.maxConcurrentRequests);
+      await Promise.all([...Array.from({ length: workerCount }, worker), batches]);
+
+      if (!abortController.signal.aborted) {
+        await this.completeExperiment(experiment.id);
+      } else if (runningExperiment.lateSamples > 0) {
+        await this.settleLateSamples(runningExperiment);
+      }
+    } catch (error) {
+      this.handleError(experiment.id, error);
+    }
+  }
+
+  /**
+   * Fetch the reported first-token distribution for every cell whose provider
+   * exposes logprobs and doesn't have one from an earlier run. Failures here
+   * only cost the overlay, so they are logged rather than recorded as sample
+   * failures.
+   */
+  private async collectAnalytic(
     runningExperiment: RunningExperiment,
-    apiKeys: Record<string, string>
+    cellTasks: CellTask[]
   ): Promise<void> {
-    const { experiment, abortController, progress } = runningExperiment;
+    const { experiment, progress, abortController } = runningExperiment;
+    const fetched = new Set(runningExperiment.analytic.map(a => cellKey(a.modelId, a)));
+
+    for (const task of cellTasks) {
+      if (abortController.signal.aborted) return;
+      if (!providers.supportsProbabilities(task.providerId, task.modelId)) continue;
+      if (fetched.has(cellKey(task.modelId, task.config))) continue;
+
+      if (this.wouldExceedBudget(runningExperiment, task, 0)) {
+        await this.abort(experiment.id, {
+          kind: runningExperiment.spendLimit!.kind,
+          message: budgetMessage(runningExperiment.spendLimit!),
+        });
+        return;
+      }
 
-    try {
-      for (const modelId of experiment.selectedModels) {
-        if (abortController.signal.aborted) break;
+      try {
+        const result = await providers.probabilities(
+          task.providerId,
+          this.sampleParams(experiment, task),
+          task.apiKey
+        );
+
+        const usage = result.usage ?? callTokens(experiment, task.config);
+        const cost = providers.estimateCost({ model: task.modelId, ...usage });
+
+        runningExperiment.analytic.push({
+          modelId: task.modelId,
+          temperature: task.config.temperature,
+          topK: task.config.topK,
+          promptId: task.config.promptId,
+          stimulus: task.config.stimulus,
+          contextId: task.config.contextId,
+          words: result.words,
+          coverage: result.coverage,
+          cost,
+        });
+        experiment.analytic = [...runningExperiment.analytic];
+        await storage.saveExperiment(experiment);
 
-        const model = this.findModelById(modelId);
-        if (!model) {
-          console.error(`Model not found: ${modelId}`);
-          continue;
+        runningExperiment.analyticCost += cost;
+        progress.runningCost += cost;
+        if (runningExperiment.spendLimit) {
+          progress.budgetRemaining = runningExperiment.spendLimit.amount - progress.runningCost;
         }
+      } catch (error) {
+        console.warn(`[RUNNER] No analytic distribution for ${task.modelId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * One task template per (model, config) cell, skipping models we can't run.
+   */
+  private resolveCellTasks(
+    experiment: Experiment,
+    apiKeys: Record<string, string>
+  ): CellTask[] {
+    const cellTasks: CellTask[] = [];
+
+    for (const modelId of experiment.selectedModels) {
+      const model = this.findModelById(modelId);
+      if (!model) {
+        console.error(`Model not found: ${modelId}`);
+        continue;
+      }
+
+      // Keyless custom endpoints get an empty key
+      const apiKey = apiKeys[model.providerId] ?? '';
+      if (!apiKey && providers.requiresKey(model.providerId)) {
+        console.error(`No API key for provider: ${model.providerId}`);
+        continue;
+      }
+
+      for (const config of experiment.configs) {
+        cellTasks.push({
+          providerId: model.providerId,
+          modelId,
+          modelName: model.name,
+          config,
+          apiKey,
+        });
+      }
+    }
+
+    return cellTasks;
+  }
 
-        const apiKey = apiKeys[model.providerId];
-        if (!apiKey) {
-          console.error(`No API key for provider: ${model.providerId}`);
+  private buildSampleQueue(
+    experiment: Experiment,
+    cellTasks: CellTask[],
+    existingSamples: Sample[]
+  ): SampleTask[] {
+    const queue: SampleTask[] = [];
+
+    // Index already-saved samples by cell so a resumed run only fills the gaps
+    const completedIndices = new Map<string, Set<number>>();
+    const legacyCounts = new Map<string, number>();
+    existingSamples.forEach(sample => {
+      const key = cellKey(sample.modelId, sample);
+      if (sample.sampleIndex === undefined) {
+        legacyCounts.set(key, (legacyCounts.get(key) || 0) + 1);
+        return;
+      }
+      if (!completedIndices.has(key)) {
+        completedIndices.set(key, new Set());
+      }
+      completedIndices.get(key)!.add(sample.sampleIndex);
+    });
+
+    for (const cellTask of cellTasks) {
+      const key = cellKey(cellTask.modelId, cellTask.config);
+      const done = completedIndices.get(key) ?? new Set<number>();
+      // Samples saved before indices were recorded fill the lowest open slots
+      let legacy = legacyCounts.get(key) || 0;
+
+      for (let i = 0; i < experiment.samplesPerConfig; i++) {
+        if (done.has(i)) continue;
+        if (legacy > 0) {
+          legacy--;
           continue;
         }
+        queue.push({ ...cellTask, sampleIndex: i });
+      }
+    }
 
-        progress.currentModel = model.name;
+    return queue;
+  }
 
-        for (const config of experiment.configs) {
-          if (abortController.signal.aborted) break;
+  // ==================== Batch Execution ====================
 
-          progress.currentConfig = config;
+  /**
+   * Run each batch-capable model's missing samples as one provider batch job,
+   * all models concurrently.
+   */
+  private async executeBatches(
+    runningExperiment: RunningExperiment,
+    cellTasks: CellTask[]
+  ): Promise<void> {
+    const byModel = new Map<string, CellTask[]>();
+    cellTasks.forEach(task => {
+      byModel.set(task.modelId, [...(byModel.get(task.modelId) ?? []), task]);
+    });
+
+    await Promise.all(
+      Array.from(byModel.values()).map(tasks => this.executeModelBatch(runningExperiment, tasks))
+    );
+  }
+
+  /**
+   * Submit the model's batch, or pick up the job recorded before a reload, then
+   * poll until it ends and record every result as a sample or failure. A batch
+   * that can't be submitted or polled fails its samples, not the experiment.
+   */
+  private async executeModelBatch(
+    runningExperiment: RunningExperiment,
+    cellTasks: CellTask[]
+  ): Promise<void> {
+    const { experiment, abortController, samples, failures, progress } = runningExperiment;
+    const { providerId, modelId, modelName, apiKey } = cellTasks[0];
+    const { signal } = abortController;
 
-          // Execute samples for this model+config combination
-          await this.executeSamplesForConfig(
-            runningExperiment,
-            model.providerId,
-            modelId,
-            config,
-            apiKey
-          );
+    let job = experiment.batches?.find(b => b.modelId === modelId && b.status === 'submitted');
+
+    // Results already recorded for a recovered job must not be recorded twice
+    const recorded = new Set(
+      job ? failures.filter(f => f.modelId === modelId).map(f => slotKey(modelId, f, f.sampleIndex)) : []
+    );
+    const pending = this.buildSampleQueue(experiment, cellTasks, samples)
+      .filter(task => !recorded.has(slotKey(modelId, task.config, task.sampleIndex)));
+    if (pending.length === 0) return;
+
+    const requests: BatchRequest[] = pending.map(task => ({
+      customId: batchCustomId(experiment, task),
+      params: this.sampleParams(experiment, task),
+    }));
+    const tasksById = new Map(requests.map((request, i) => [request.customId, pending[i]]));
+
+    this.announce(runningExperiment, pending[0]);
+    progress.currentModel = modelName;
+
+    try {
+      if (!job) {
+        if (this.wouldBatchExceedBudget(runningExperiment, pending)) {
+          if (!signal.aborted) {
+            await this.abort(experiment.id, {
+              kind: runningExperiment.spendLimit!.kind,
+              message: budgetMessage(runningExperiment.spendLimit!),
+            });
+          }
+          return;
         }
+
+        const batchId = await providers.submitBatch(providerId, requests, apiKey);
+        job = {
+          providerId,
+          modelId,
+          batchId,
+          status: 'submitted',
+          requestCount: requests.length,
+          submittedAt: new Date().toISOString(),
+        };
+        experiment.batches = [...(experiment.batches ?? []), job];
+        await storage.saveExperiment(experiment);
       }
 
-      if (!abortController.signal.aborted) {
-        await this.completeExperiment(experiment.id);
+      while (!signal.aborted) {
+        try {
+          const status = await providers.batchStatus(providerId, job.batchId, apiKey);
+          if (status.ended) break;
+        } catch (error) {
+          // Polling outlives network blips and rate limits; the job keeps running
+          if (!isRetryableFailure(classifyFailure(error))) throw error;
+          console.warn(`[RUNNER] Polling batch ${job.batchId} failed, retrying:`, error);
+        }
+        await sleep(BATCH_POLL_INTERVAL_MS, signal);
+      }
+      if (signal.aborted) return;
+
+      const items = await providers.batchResults(providerId, job.batchId, requests, apiKey);
+      for (const item of items) {
+        const task = tasksById.get(item.customId);
+        if (!task || signal.aborted) continue;
+        if ('result' in item) {
+          await this.recordSample(runningExperiment, task, item.result, 0, job);
+        } else {
+          const { kind, message, rawText } = item.error;
+          await this.recordFailure(runningExperiment, task, kind, new ProviderError(message, kind, undefined, rawText), 1);
+        }
       }
+
+      this.markBatch(experiment, job, 'ended');
+      await storage.saveExperiment(experiment);
     } catch (error) {
-      this.handleError(experiment.id, error);
+      if (signal.aborted) return;
+      const kind = classifyFailure(error);
+      console.error(`[RUNNER] Batch for ${modelId} failed (${kind}):`, error);
+      if (job) this.markBatch(experiment, job, 'ended');
+      for (const task of pending) {
+        await this.recordFailure(runningExperiment, task, kind, error, 1);
+      }
+    }
+  }
+
+  private markBatch(experiment: Experiment, job: BatchJob, status: BatchJob['status']): void {
+    experiment.batches = (experiment.batches ?? []).map(b => (b.batchId === job.batchId ? { ...b, status } : b));
+  }
+
+  /**
+   * A batch is all-or-nothing once submitted, so check its whole cost at the
+   * batch price before sending it.
+   */
+  private wouldBatchExceedBudget(runningExperiment: RunningExperiment, tasks: SampleTask[]): boolean {
+    const { spendLimit, progress, experiment } = runningExperiment;
+    if (!spendLimit) return false;
+
+    const batchCost = tasks.reduce((sum, task) => sum + providers.estimateCost({
+      model: task.modelId,
+      ...callTokens(experiment, task.config),
+      batch: true,
+    }), 0);
+    return progress.runningCost + batchCost > spendLimit.amount;
+  }
+
+  // ==================== Budget ====================
+
+  /**
+   * The tighter of the experiment's own budget and whatever is left of the
+   * monthly budget after other experiments started this month.
+   */
+  private async resolveSpendLimit(
+    experiment: Experiment,
+    settings: UserSettings
+  ): Promise<SpendLimit | null> {
+    const limits: SpendLimit[] = [];
+
+    if (experiment.budget !== undefined) {
+      limits.push({ amount: experiment.budget, kind: 'budget' });
+    }
+
+    if (settings.monthlyBudget !== undefined) {
+      const now = new Date();
+      const experiments = await storage.getAllExperiments();
+      const spentThisMonth = experiments
+        .filter(e => e.id !== experiment.id && e.startedAt)
+        .filter(e => {
+          const started = new Date(e.startedAt!);
+          return started.getFullYear() === now.getFullYear() && started.getMonth() === now.getMonth();
+        })
+        .reduce((sum, e) => sum + (e.actualCost ?? 0), 0);
+
+      limits.push({ amount: Math.max(0, settings.monthlyBudget - spentThisMonth), kind: 'monthly-budget' });
     }
+
+    if (limits.length === 0) return null;
+    return limits.reduce((tightest, limit) => (limit.amount < tightest.amount ? limit : tightest));
   }
 
-  private async executeSamplesForConfig(
+  /**
+   * Would dispatching this task (on top of the calls already in flight) push
+   * spend past the limit?
+   */
+  private wouldExceedBudget(
     runningExperiment: RunningExperiment,
-    providerId: string,
-    modelId: string,
-    config: ExperimentConfig,
-    apiKey: string
-  ): Promise<void> {
-    const { experiment, abortController, progress } = runningExperiment;
+    task: CellTask,
+    inFlight: number
+  ): boolean {
+    const { spendLimit, progress } = runningExperiment;
+    if (!spendLimit) return false;
+
+    const callCost = this.expectedSampleCost(runningExperiment, task);
+    return progress.runningCost + callCost * (inFlight + 1) > spendLimit.amount;
+  }
 
-    for (let i = 0; i < experiment.samplesPerConfig; i++) {
-      if (abortController.signal.aborted) break;
+  /**
+   * Mean cost of this model's samples so far, or the shared token estimate
+   * before any have landed.
+   */
+  private expectedSampleCost(runningExperiment: RunningExperiment, task: CellTask): number {
+    const modelSamples = runningExperiment.samples.filter(s => s.modelId === task.modelId);
+    if (modelSamples.length > 0) {
+      return modelSamples.reduce((sum, s) => sum + s.cost, 0) / modelSamples.length;
+    }
 
-      try {
-        const sampleParams: SampleParams = {
-          model: modelId,
-          stimulus: experiment.stimulus,
-          temperature: config.temperature,
-          topK: config.topK,
-          maxTokens: 5,
-        };
+    return providers.estimateCost({
+      model: task.modelId,
+      ...callTokens(runningExperiment.experiment, task.config),
+    });
+  }
 
-        console.log(`[RUNNER] Sampling ${modelId} with temp=${config.temperature}, topK=${config.topK}`);
-        const startTime = Date.now();
-        const word = await providers.sample(providerId, sampleParams, apiKey);
-        const latencyMs = Date.now() - startTime;
-        console.log(`[RUNNER] Got word: "${word}" in ${latencyMs}ms`);
+  // ==================== Adaptive Sampling ====================
+
+  private buildAdaptiveCells(
+    cellTasks: CellTask[],
+    existingSamples: Sample[]
+  ): Map<string, AdaptiveCell> {
+    const cells = new Map<string, AdaptiveCell>();
+
+    cellTasks.forEach(task => {
+      cells.set(cellKey(task.modelId, task.config), {
+        task,
+        nextIndex: 0,
+        outstanding: 0,
+        wordCounts: new Map(),
+        lastEntropy: null,
+      });
+    });
 
-        // Estimate cost (rough approximation)
-        const cost = providers.estimateCost(providerId, {
-          model: modelId,
-          inputTokens: Math.ceil(experiment.stimulus.length / 4), // Rough token estimate
-          outputTokens: 1, // One word output
-        });
+    // A resumed run picks up each cell's distribution where it left off
+    existingSamples.forEach(sample => {
+      const cell = cells.get(cellKey(sample.modelId, sample));
+      if (!cell) return;
+      cell.wordCounts.set(sample.word, (cell.wordCounts.get(sample.word) || 0) + 1);
+      cell.nextIndex = Math.max(cell.nextIndex + 1, (sample.sampleIndex ?? 0) + 1);
+    });
 
-        const sample: Sample = {
-          id: `${experiment.id}-${modelId}-${i}-${Date.now()}`,
-          experimentId: experiment.id,
-          modelId,
-          temperature: config.temperature,
-          topK: config.topK,
-          word,
-          latencyMs,
-          cost,
-          timestamp: new Date().toISOString(),
-        };
+    return cells;
+  }
+
+  private recordBatchOutcome(
+    runningExperiment: RunningExperiment,
+    cell: AdaptiveCell,
+    word: string | null,
+    queue: SampleTask[]
+  ): void {
+    if (word !== null) {
+      cell.wordCounts.set(word, (cell.wordCounts.get(word) || 0) + 1);
+    }
+
+    cell.outstanding--;
+    if (cell.outstanding === 0) {
+      this.scheduleNextBatch(runningExperiment, cell, queue);
+    }
+  }
+
+  /**
+   * Queue the cell's next batch, or retire the cell once its distribution is
+   * stable or it has reached samplesPerConfig (the per-cell maximum).
+   */
+  private scheduleNextBatch(
+    runningExperiment: RunningExperiment,
+    cell: AdaptiveCell,
+    queue: SampleTask[]
+  ): void {
+    const { experiment, progress } = runningExperiment;
+    const { batchSize } = experiment.adaptive!;
+    const remaining = experiment.samplesPerConfig - cell.nextIndex;
+
+    if (remaining <= 0 || this.hasConverged(experiment.adaptive!, cell)) {
+      // Calls this cell no longer needs come off the progress total
+      progress.totalCalls -= Math.max(0, remaining);
+      return;
+    }
+
+    const size = Math.min(batchSize, remaining);
+    for (let i = 0; i < size; i++) {
+      queue.push({ ...cell.task, sampleIndex: cell.nextIndex++ });
+    }
+    cell.outstanding = size;
+  }
+
+  /**
+   * A cell has converged when, after at least two batches, its entropy moved
+   * less than the tolerance over the last batch and the Good-Turing estimate of
+   * unseen probability mass (words seen once / samples) is below the threshold.
+   */
+  private hasConverged(adaptive: AdaptiveSampling, cell: AdaptiveCell): boolean {
+    const counts = Array.from(cell.wordCounts.values());
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    if (total === 0) return false;
+
+    const entropy = shannonEntropy(counts);
+    const previousEntropy = cell.lastEntropy;
+    cell.lastEntropy = entropy;
+
+    if (cell.nextIndex < adaptive.batchSize * 2 || previousEntropy === null) {
+      return false;
+    }
+
+    const singletons = counts.filter(count => count === 1).length;
+    const unseenMass = singletons / total;
+
+    return (
+      Math.abs(entropy - previousEntropy) < adaptive.entropyTolerance &&
+      unseenMass <= adaptive.unseenMassThreshold
+    );
+  }
 
-        // Save sample
+  private async executeSample(
+    runningExperiment: RunningExperiment,
+    task: SampleTask
+  ): Promise<string | null> {
+    const { abortController } = runningExperiment;
+
+    this.announce(runningExperiment, task);
+
+    try {
+      const response = await this.sampleWithRetry(runningExperiment, task);
+      if (!response) return null;
+
+      // A response that lands after the run was stopped was still billed
+      if (abortController.signal.aborted) {
+        const sample = this.buildSample(runningExperiment, task, response.result, response.latencyMs);
         await storage.saveSample(sample);
         runningExperiment.samples.push(sample);
+        runningExperiment.lateSamples++;
+        return null;
+      }
 
-        // Update progress
-        progress.completedCalls++;
-        progress.runningCost += cost;
-        progress.recentWords = [word, ...progress.recentWords.slice(0, 9)]; // Keep last 10 words
+      return await this.recordSample(runningExperiment, task, response.result, response.latencyMs);
+    } catch (error) {
+      console.error(`[RUNNER] Failed to record sample for ${task.modelId}:`, error);
+      // Continue with other samples - don't fail the whole experiment for one bad sample
+      return null;
+    }
+  }
+
+  // Announce the first task of each model and each (model, config) cell
+  private announce(runningExperiment: RunningExperiment, task: SampleTask): void {
+    const { experiment, progress } = runningExperiment;
+    const { modelId, config } = task;
 
-        // Estimate time remaining
-        const elapsed = Date.now() - runningExperiment.startTime;
-        const rate = progress.completedCalls / elapsed; // calls per ms
-        const remaining = progress.totalCalls - progress.completedCalls;
-        progress.estimatedTimeRemaining = remaining / rate;
+    progress.currentModel = task.modelName;
+    progress.currentConfig = config;
+
+    if (!runningExperiment.startedModels.has(modelId)) {
+      runningExperiment.startedModels.add(modelId);
+      this.emit({ type: 'model-started', experimentId: experiment.id, modelId, progress: { ...progress } });
+    }
+    const key = cellKey(modelId, config);
+    if (!runningExperiment.startedCells.has(key)) {
+      runningExperiment.startedCells.add(key);
+      this.emit({ type: 'config-started', experimentId: experiment.id, modelId, config, progress: { ...progress } });
+    }
+  }
 
-        // Notify progress (could emit event here)
-        this.onProgressUpdate(experiment.id, { ...progress });
+  /**
+   * Save a sampled word and fold it into progress. Batch results have no
+   * per-call latency and are priced at the batch discount.
+   */
+  private async recordSample(
+    runningExperiment: RunningExperiment,
+    task: SampleTask,
+    result: SampleResult,
+    latencyMs: number,
+    batch?: BatchJob
+  ): Promise<string> {
+    const { experiment, progress } = runningExperiment;
+    const sample = this.buildSample(runningExperiment, task, result, latencyMs, batch);
+    const { word, cost } = sample;
+
+    // Save sample
+    await storage.saveSample(sample);
+    runningExperiment.samples.push(sample);
+    await this.supersedeFailures(runningExperiment, task);
+
+    // Update progress
+    progress.completedCalls++;
+    progress.runningCost += cost;
+    if (runningExperiment.spendLimit) {
+      progress.budgetRemaining = runningExperiment.spendLimit.amount - progress.runningCost;
+    }
+    progress.recentWords = [word, ...progress.recentWords.slice(0, 9)]; // Keep last 10 words
 
-        // Brief pause to prevent overwhelming the APIs
-        await new Promise(resolve => setTimeout(resolve, 100));
+    this.updateTimeRemaining(runningExperiment);
 
+    this.emit({ type: 'sample-completed', experimentId: experiment.id, sample, progress: { ...progress } });
+
+    return word;
+  }
+
+  private buildSample(
+    runningExperiment: RunningExperiment,
+    task: SampleTask,
+    result: SampleResult,
+    latencyMs: number,
+    batch?: BatchJob
+  ): Sample {
+    const { experiment } = runningExperiment;
+    const { modelId, config, sampleIndex } = task;
+    const { word } = result;
+
+    // Price from the provider's reported usage; estimate only if it sent none
+    const usage = result.usage ?? callTokens(experiment, config);
+    const cost = providers.estimateCost({
+      model: modelId,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      batch: !!batch,
+    });
+
+    return {
+      id: `${experiment.id}|${slotKey(modelId, config, sampleIndex)}|${Date.now()}`,
+      experimentId: experiment.id,
+      modelId,
+      temperature: config.temperature,
+      topK: config.topK,
+      promptId: config.promptId,
+      stimulus: config.stimulus,
+      contextId: config.contextId,
+      sampleIndex,
+      word,
+      rawText: result.rawText,
+      finishReason: result.stopReason,
+      sentParams: result.sent,
+      latencyMs,
+      inputTokens: result.usage?.inputTokens,
+      outputTokens: result.usage?.outputTokens,
+      cost,
+      batchId: batch?.batchId,
+      keyId: experiment.keyIds?.[task.providerId],
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Request a word, retrying transient failures (rate limits, timeouts, server
+   * errors) with exponential backoff. Returns null once the failure has been
+   * recorded, or if the run is aborted while waiting.
+   */
+  private async sampleWithRetry(
+    runningExperiment: RunningExperiment,
+    task: SampleTask
+  ): Promise<{ result: SampleResult; latencyMs: number } | null> {
+    const { experiment, abortController } = runningExperiment;
+    const { providerId, modelId, config, apiKey } = task;
+    const sampleParams = this.sampleParams(experiment, task);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        console.log(`[RUNNER] Sampling ${modelId} with temp=${config.temperature}, topK=${config.topK}`);
+        const startTime = Date.now();
+        const result = await providers.sample(providerId, sampleParams, apiKey);
+        const latencyMs = Date.now() - startTime;
+        console.log(`[RUNNER] Got word: "${result.word}" in ${latencyMs}ms`);
+        return { result, latencyMs };
       } catch (error) {
-        console.error(`[RUNNER] Sample failed for ${modelId}:`, error);
-        // Log more details about the error
-        if (error instanceof Error) {
-          console.error(`[RUNNER] Error message: ${error.message}`);
+        if (abortController.signal.aborted) return null;
+
+        const kind = classifyFailure(error);
+        if (isRetryableFailure(kind) && attempt < MAX_SAMPLE_ATTEMPTS) {
+          const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+          console.warn(`[RUNNER] ${kind} for ${modelId}, retrying in ${Math.round(delay)}ms (attempt ${attempt})`);
+          await sleep(delay, abortController.signal);
+          continue;
         }
-        // Continue with other samples - don't fail the whole experiment for one bad sample
+
+        console.error(`[RUNNER] Sample failed for ${modelId} (${kind}):`, error);
+        await this.recordFailure(runningExperiment, task, kind, error, attempt);
+        return null;
       }
     }
   }
 
+  private sampleParams(experiment: Experiment, task: CellTask): SampleParams {
+    return {
+      model: task.modelId,
+      ...applyContext(
+        renderPrompt(promptFor(experiment, task.config), stimulusFor(experiment, task.config)),
+        contextFor(experiment, task.config)
+      ),
+      temperature: task.config.temperature,
+      topK: task.config.topK,
+      maxTokens: 5,
+      normalization: experiment.normalization,
+    };
+  }
+
+  private async recordFailure(
+    runningExperiment: RunningExperiment,
+    task: SampleTask,
+    kind: FailureKind,
+    error: unknown,
+    attempts: number
+  ): Promise<void> {
+    const { experiment, progress } = runningExperiment;
+    const { modelId, config, sampleIndex } = task;
+
+    const failure: SampleFailure = {
+      id: `${experiment.id}|${slotKey(modelId, config, sampleIndex)}|failure-${Date.now()}`,
+      experimentId: experiment.id,
+      modelId,
+      temperature: config.temperature,
+      topK: config.topK,
+      promptId: config.promptId,
+      stimulus: config.stimulus,
+      contextId: config.contextId,
+      sampleIndex,
+      kind,
+      message: error instanceof Error ? error.message : String(error),
+      rawText: error instanceof ProviderError ? error.rawText : undefined,
+      attempts,
+      timestamp: new Date().toISOString(),
+    };
+
+    await this.supersedeFailures(runningExperiment, task);
+    await storage.saveFailure(failure);
+    runningExperiment.failures.push(failure);
+
+    progress.failedCalls++;
+    this.updateTimeRemaining(runningExperiment);
+    this.emit({ type: 'sample-failed', experimentId: experiment.id, failure, progress: { ...progress } });
+  }
+
+  /**
+   * Drop earlier failures for a slot being recorded again, so a retried slot
+   * is counted once whether it now succeeds or fails.
+   */
+  private async supersedeFailures(runningExperiment: RunningExperiment, task: SampleTask): Promise<void> {
+    const { failures, progress } = runningExperiment;
+    const key = slotKey(task.modelId, task.config, task.sampleIndex);
+    const superseded = failures.filter(f => slotKey(f.modelId, f, f.sampleIndex) === key);
+    if (superseded.length === 0) return;
+
+    await Promise.all(superseded.map(f => storage.deleteFailure(f.id)));
+    superseded.forEach(f => failures.splice(failures.indexOf(f), 1));
+    progress.failedCalls -= superseded.length;
+  }
+
+  private updateTimeRemaining(runningExperiment: RunningExperiment): void {
+    const { progress } = runningExperiment;
+
+    // Estimate from observed throughput (accounts for concurrency and resumed samples)
+    const elapsed = Date.now() - runningExperiment.startTime;
+    const processed = progress.completedCalls + progress.failedCalls;
+    const processedThisRun = processed - runningExperiment.initialProcessedCalls;
+    // A retry that supersedes a carried-over failure resolves no new slot, so
+    // until one does there is no throughput to estimate from
+    if (processedThisRun <= 0) return;
+    const rate = processedThisRun / elapsed; // calls per ms
+    const remaining = progress.totalCalls - processed;
+    progress.estimatedTimeRemaining = remaining / rate;
+  }
+
   private async completeExperiment(experimentId: string): Promise<void> {
     const runningExperiment = this.runningExperiments.get(experimentId);
     if (!runningExperiment) return;
 
-    const { experiment, samples } = runningExperiment;
+    const { experiment, samples, failures } = runningExperiment;
 
     // Update experiment status
     experiment.status = 'completed';
     experiment.completedAt = new Date().toISOString();
-    experiment.actualCost = samples.reduce((sum, sample) => sum + sample.cost, 0);
+    experiment.actualCost = this.totalCost(runningExperiment);
     experiment.progress = 100;
 
     await storage.saveExperiment(experiment);
 
     // Generate and save results
-    const results = this.generateResults(experiment, samples);
+    const results = this.generateResults(experiment, samples, failures, runningExperiment.analytic);
     await storage.saveResults(results);
 
     // Auto-submit to community (anonymous, no API keys)
@@ -240,6 +1134,7 @@ export class ExperimentRunner {
     // Clean up
     this.runningExperiments.delete(experimentId);
 
+    this.emit({ type: 'completed', experimentId, experiment: { ...experiment }, results });
     console.log(`Experiment ${experimentId} completed successfully`);
   }
 
@@ -248,27 +1143,44 @@ export class ExperimentRunner {
 
     const runningExperiment = this.runningExperiments.get(experimentId);
     if (runningExperiment) {
-      const { experiment, samples } = runningExperiment;
+      const { experiment, samples, failures } = runningExperiment;
 
       // Update experiment status
       experiment.status = 'failed';
       experiment.completedAt = new Date().toISOString();
-      experiment.actualCost = samples.reduce((sum, sample) => sum + sample.cost, 0);
+      experiment.actualCost = this.totalCost(runningExperiment);
 
       await storage.saveExperiment(experiment);
 
       // Save partial results if we have any samples
       if (samples.length > 0) {
-        const results = this.generateResults(experiment, samples);
+        const results = this.generateResults(experiment, samples, failures, runningExperiment.analytic);
         await storage.saveResults(results);
       }
 
       // Clean up
       this.runningExperiments.delete(experimentId);
+
+      this.emit({
+        type: 'failed',
+        experimentId,
+        experiment: { ...experiment },
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
-  private generateResults(experiment: Experiment, samples: Sample[]): ExperimentResults {
+  private totalCost(runningExperiment: RunningExperiment): number {
+    const sampleCost = runningExperiment.samples.reduce((sum, sample) => sum + sample.cost, 0);
+    return sampleCost + runningExperiment.analyticCost;
+  }
+
+  private generateResults(
+    experiment: Experiment,
+    samples: Sample[],
+    failures: SampleFailure[] = [],
+    analytic: AnalyticDistribution[] = []
+  ): ExperimentResults {
     // Aggregate word frequencies
     const wordCounts = new Map<string, number>();
     samples.forEach(sample => {
@@ -279,20 +1191,17 @@ export class ExperimentRunner {
     const totalSamples = samples.length;
     const uniqueWords = wordCounts.size;
 
-    // Convert to frequency objects
-    const topWords: WordFrequency[] = Array.from(wordCounts.entries())
-      .map(([word, count]) => ({
-        word,
-        count,
-        percentage: (count / totalSamples) * 100,
-      }))
-      .sort((a, b) => b.count - a.count);
-
-    // Calculate entropy (diversity measure)
-    const entropy = -topWords.reduce((sum, { percentage }) => {
-      const p = percentage / 100;
-      return sum + (p > 0 ? p * Math.log2(p) : 0);
-    }, 0);
+    // Convert to frequency objects, with bootstrap intervals
+    const overall = analyzeWords(
+      Array.from(wordCounts.entries())
+        .map(([word, count]) => ({
+          word,
+          count,
+          percentage: (count / totalSamples) * 100,
+        }))
+        .sort((a, b) => b.count - a.count)
+    );
+    const topWords = overall.words;
 
     // Group by model
     const byModel: ModelResult[] = [];
@@ -313,56 +1222,75 @@ export class ExperimentRunner {
         modelWordCounts.set(sample.word, count + 1);
       });
 
-      const modelWords: WordFrequency[] = Array.from(modelWordCounts.entries())
-        .map(([word, count]) => ({
-          word,
-          count,
-          percentage: (count / modelSamples.length) * 100,
-        }))
-        .sort((a, b) => b.count - a.count);
-
-      // Find the config used for this model (assuming single config for simplicity)
-      const sampleConfig = modelSamples[0];
-      const config: ExperimentConfig = {
-        temperature: sampleConfig.temperature,
-        topK: sampleConfig.topK,
-      };
+      const modelAnalysis = analyzeWords(
+        Array.from(modelWordCounts.entries())
+          .map(([word, count]) => ({
+            word,
+            count,
+            percentage: (count / modelSamples.length) * 100,
+          }))
+          .sort((a, b) => b.count - a.count)
+      );
+
+      // Every distinct setting the model was sampled at
+      const configs = Array.from(
+        new Map(modelSamples.map(s => [`${s.temperature}|${s.topK}`, { temperature: s.temperature, topK: s.topK }])).values()
+      );
 
       byModel.push({
         modelId,
-        config,
-        words: modelWords,
+        configs,
+        words: modelAnalysis.words,
         totalSamples: modelSamples.length,
         uniqueWords: modelWordCounts.size,
+        entropyEstimate: modelAnalysis.entropy,
       });
     });
 
-    // Group by temperature
-    const byTemperature: Record<number, WordFrequency[]> = {};
-    const tempGroups = new Map<number, Sample[]>();
+    const byTemperature = groupWords(samples, sample => sample.temperature);
+
+    const entropyByTemperature: Record<number, EntropyEstimate> = {};
+    Object.entries(byTemperature).forEach(([temperature, words]) => {
+      entropyByTemperature[Number(temperature)] = analyzeWords(words).entropy;
+    });
+
+    const byTopK = groupWords(samples, sample => sample.topK);
+
+    // Full model x temperature x top-k cube
+    const cube: ResultCube = {};
+    const cellGroups = new Map<string, Sample[]>();
 
     samples.forEach(sample => {
-      const temp = sample.temperature;
-      if (!tempGroups.has(temp)) {
-        tempGroups.set(temp, []);
+      const key = `${sample.modelId}|${sample.temperature}|${sample.topK}`;
+      if (!cellGroups.has(key)) {
+        cellGroups.set(key, []);
       }
-      tempGroups.get(temp)!.push(sample);
+      cellGroups.get(key)!.push(sample);
     });
 
-    tempGroups.forEach((tempSamples, temperature) => {
-      const tempWordCounts = new Map<string, number>();
-      tempSamples.forEach(sample => {
-        const count = tempWordCounts.get(sample.word) || 0;
-        tempWordCounts.set(sample.word, count + 1);
-      });
+    cellGroups.forEach(cellSamples => {
+      const { modelId, temperature, topK } = cellSamples[0];
+      const { words, entropy: entropyEstimate } = analyzeWords(wordFrequencies(cellSamples));
+      const byTemp = cube[modelId] ?? (cube[modelId] = {});
+      const byK = byTemp[temperature] ?? (byTemp[temperature] = {});
+      byK[topK] = {
+        words,
+        totalSamples: cellSamples.length,
+        uniqueWords: words.length,
+        entropy: entropyEstimate.plugIn,
+        entropyEstimate,
+      };
+    });
 
-      byTemperature[temperature] = Array.from(tempWordCounts.entries())
-        .map(([word, count]) => ({
-          word,
-          count,
-          percentage: (count / tempSamples.length) * 100,
-        }))
-        .sort((a, b) => b.count - a.count);
+    const byPrompt = groupWords(samples, sample => sample.promptId ?? DEFAULT_PROMPT.id);
+    const byStimulus = groupWords(samples, sample => sample.stimulus ?? experiment.stimulus);
+    const byContext = groupWords(samples, sample => sample.contextId);
+
+    // Tally failures by model and cause
+    const failuresByModel: Record<string, Partial<Record<FailureKind, number>>> = {};
+    failures.forEach(failure => {
+      const kinds = failuresByModel[failure.modelId] ?? (failuresByModel[failure.modelId] = {});
+      kinds[failure.kind] = (kinds[failure.kind] || 0) + 1;
     });
 
     return {
@@ -370,15 +1298,25 @@ export class ExperimentRunner {
       totalSamples,
       uniqueWords,
       topWords,
-      entropy,
+      entropy: overall.entropy.plugIn,
+      entropyEstimate: overall.entropy,
       byModel,
       byTemperature,
+      entropyByTemperature,
+      byTopK,
+      cube,
+      byPrompt,
+      byStimulus,
+      byContext,
+      failureCount: failures.length,
+      failuresByModel,
+      analytic: analytic.length > 0 ? analytic : undefined,
     };
   }
 
   // ==================== Control Methods ====================
 
-  async abort(experimentId: string): Promise<void> {
+  async abort(experimentId: string, stopReason?: ExperimentStopReason): Promise<void> {
     const runningExperiment = this.runningExperiments.get(experimentId);
     if (!runningExperiment) {
       throw new Error('Experiment not found or not running');
@@ -387,20 +1325,48 @@ export class ExperimentRunner {
     runningExperiment.abortController.abort();
 
     // Update experiment status to cancelled
-    const { experiment, samples } = runningExperiment;
+    const { experiment, samples, failures } = runningExperiment;
+    this.cancelBatches(runningExperiment);
     experiment.status = 'cancelled';
+    experiment.stopReason = stopReason;
     experiment.completedAt = new Date().toISOString();
-    experiment.actualCost = samples.reduce((sum, sample) => sum + sample.cost, 0);
+    experiment.actualCost = this.totalCost(runningExperiment);
 
     await storage.saveExperiment(experiment);
 
     // Save partial results if we have samples
     if (samples.length > 0) {
-      const results = this.generateResults(experiment, samples);
+      const results = this.generateResults(experiment, samples, failures, runningExperiment.analytic);
       await storage.saveResults(results);
     }
 
     this.runningExperiments.delete(experimentId);
+
+    this.emit({ type: 'cancelled', experimentId, experiment: { ...experiment } });
+  }
+
+  /**
+   * Fold samples that landed after an abort into the stored cost and results,
+   * unless the experiment has been resumed in the meantime.
+   */
+  private async settleLateSamples(runningExperiment: RunningExperiment): Promise<void> {
+    const { experiment, samples, failures, analytic } = runningExperiment;
+    if (this.runningExperiments.has(experiment.id)) return;
+
+    experiment.actualCost = this.totalCost(runningExperiment);
+    await storage.saveExperiment(experiment);
+    await storage.saveResults(this.generateResults(experiment, samples, failures, analytic));
+  }
+
+  // Best effort: a job we fail to cancel finishes unread at the provider
+  private cancelBatches(runningExperiment: RunningExperiment): void {
+    const { experiment, apiKeys } = runningExperiment;
+    (experiment.batches ?? []).filter(job => job.status === 'submitted').forEach(job => {
+      this.markBatch(experiment, job, 'ended');
+      providers.cancelBatch(job.providerId, job.batchId, apiKeys[job.providerId] ?? '').catch(error => {
+        console.warn(`[RUNNER] Could not cancel batch ${job.batchId}:`, error);
+      });
+    });
   }
 
   getProgress(experimentId: string): RunProgress | null {
@@ -419,22 +1385,17 @@ export class ExperimentRunner {
   // ==================== Utility Methods ====================
 
   private findModelById(modelId: string) {
-    for (const provider of PROVIDER_DATA) {
-      const model = provider.models.find(m => m.id === modelId);
-      if (model) {
-        return model;
-      }
-    }
-    return null;
+    return providers.findModel(modelId) ?? null;
   }
 
-  private onProgressUpdate(experimentId: string, progress: RunProgress): void {
-    // This could emit an event for real-time UI updates
-    // For now, just log
-    console.log(`Experiment ${experimentId} progress: ${progress.completedCalls}/${progress.totalCalls}`);
+  private emit(event: RunEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        // A misbehaving subscriber must never stall the run
+        console.error('[RUNNER] Event listener error:', error);
+      }
+    });
   }
 }
-
-// ==================== Singleton Instance ====================
-
-export const experimentRunner = new ExperimentRunner();
\ No newline at end of file
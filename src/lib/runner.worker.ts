@@ -0,0 +1,63 @@
+/**
+ * One Word - Runner Worker
+ *
+ * Hosts the ExperimentRunner, provider registry and sample/result writes in a
+ * dedicated worker so sampling never competes with rendering on the main thread.
+ * Commands arrive as RunnerRequest messages; replies and run events go back as
+ * RunnerMessage.
+ */
+
+import type { RunnerCommand, RunnerMessage, RunnerRequest, RunProgress } from './types';
+import { ExperimentRunner } from './runner';
+import { providers } from './providers';
+import { storage } from './storage';
+
+const runner = new ExperimentRunner();
+const ready = storage.init();
+
+const post = (message: RunnerMessage): void => {
+  self.postMessage(message);
+};
+
+runner.subscribe(event => post({ type: 'event', event }));
+
+async function handleCommand(command: RunnerCommand): Promise<RunProgress | null> {
+  await ready;
+
+  switch (command.type) {
+    case 'start':
+      providers.setCustomEndpoints(command.endpoints);
+      providers.setModelCatalog(command.catalog);
+      providers.setRateLimits(command.settings.rateLimits ?? {});
+      await runner.start(command.experiment, command.apiKeys, command.settings);
+      return runner.getProgress(command.experiment.id);
+    case 'resume':
+      providers.setCustomEndpoints(command.endpoints);
+      providers.setModelCatalog(command.catalog);
+      providers.setRateLimits(command.settings.rateLimits ?? {});
+      await runner.resume(command.experiment, command.apiKeys, command.settings);
+      return runner.getProgress(command.experiment.id);
+    case 'discard':
+      await runner.discardInterrupted(command.experiment);
+      return null;
+    case 'renormalize':
+      await runner.renormalize(command.experiment, command.pipeline);
+      return null;
+    case 'abort':
+      await runner.abort(command.experimentId);
+      return null;
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<RunnerRequest>) => {
+  const { requestId, command } = event.data;
+
+  handleCommand(command).then(
+    progress => post({ type: 'response', requestId, progress }),
+    error => post({
+      type: 'response',
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  );
+});
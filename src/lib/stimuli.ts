@@ -0,0 +1,52 @@
+/**
+ * One Word - Stimulus Lists and Templates
+ *
+ * An experiment can run over many stimuli at once: an explicit list, or a
+ * template such as "the {adjective} word for {noun} is" expanded over a list
+ * of values per slot. Every stimulus is crossed with every model and config.
+ */
+
+import type { Experiment, ExperimentBuilderState, ExperimentConfig } from './types';
+
+// Each stimulus multiplies the whole grid, so expansion is capped
+export const MAX_STIMULI = 200;
+
+const SLOT_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Slot names in the order they first appear.
+ */
+export function templateSlots(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(SLOT_PATTERN), match => match[1])));
+}
+
+/**
+ * Every combination of slot values, in slot order. A slot without values
+ * leaves nothing to expand.
+ */
+export function expandTemplate(template: string, values: Record<string, string[]>): string[] {
+  return templateSlots(template).reduce<string[]>(
+    (stimuli, slot) => stimuli.flatMap(stimulus =>
+      (values[slot] ?? []).map(value => stimulus.split(`{${slot}}`).join(value))
+    ),
+    [template]
+  );
+}
+
+/**
+ * The stimuli a builder state would run, trimmed and without duplicates.
+ */
+export function builderStimuli(
+  state: Pick<ExperimentBuilderState, 'stimulusMode' | 'stimulus' | 'stimulusList' | 'templateValues'>
+): string[] {
+  const stimuli = state.stimulusMode === 'list'
+    ? state.stimulusList
+    : state.stimulusMode === 'template'
+    ? expandTemplate(state.stimulus, state.templateValues)
+    : [state.stimulus];
+  return Array.from(new Set(stimuli.map(s => s.trim()).filter(Boolean)));
+}
+
+export function stimulusFor(experiment: Experiment, config: Pick<ExperimentConfig, 'stimulus'>): string {
+  return config.stimulus ?? experiment.stimulus;
+}
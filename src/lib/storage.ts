@@ -2,18 +2,30 @@
  * One Word - Storage Abstraction Layer
  *
  * Provides unified interface for localStorage (small data) and IndexedDB (large data)
- * - localStorage: API keys, settings, custom stimuli
- * - IndexedDB: Experiments, samples, results
+ * - localStorage: encrypted API key vault, settings, custom stimuli, prompt templates, token calibration, model catalog, key validation
+ * - IndexedDB: Experiments, samples, failures, results
  */
 
 import type {
   UserSettings,
   Stimulus,
+  PromptTemplate,
+  APIKey,
   Experiment,
   Sample,
+  SampleFailure,
   ExperimentResults,
+  TokenCalibration,
+  CustomEndpoint,
+  ModelCatalog,
+  KeyValidationRecord,
+  VaultState,
   LocalStorageSchema
 } from './types';
+import { BUILT_IN_PROMPTS } from './prompts';
+import { deriveVaultKey, sealKeys, openKeys, fromKeyRecord, type VaultKey } from './vault';
+
+const VAULT_AUTO_LOCK_MINUTES = 15;
 
 // ==================== LocalStorage Helpers ====================
 
@@ -62,13 +74,14 @@ class LocalStorageManager {
 interface DBSchema {
   experiments: Experiment;
   samples: Sample;
+  failures: SampleFailure;
   results: ExperimentResults;
   stimuli: Stimulus;
 }
 
 class IndexedDBManager {
   private dbName = 'oneword';
-  private version = 1;
+  private version = 3;
   private db: IDBDatabase | null = null;
 
   async init(): Promise<void> {
@@ -102,6 +115,19 @@ class IndexedDBManager {
           samplesStore.createIndex('timestamp', 'timestamp');
         }
 
+        // Per-key spend, added in version 3
+        const samplesStore = request.transaction!.objectStore('samples');
+        if (!samplesStore.indexNames.contains('keyId')) {
+          samplesStore.createIndex('keyId', 'keyId');
+        }
+
+        // Failed sample attempts, kept alongside samples
+        if (!db.objectStoreNames.contains('failures')) {
+          const failuresStore = db.createObjectStore('failures', { keyPath: 'id' });
+          failuresStore.createIndex('experimentId', 'experimentId');
+          failuresStore.createIndex('modelId', 'modelId');
+        }
+
         // Results store - aggregated data
         if (!db.objectStoreNames.contains('results')) {
           db.createObjectStore('results', { keyPath: 'experimentId' });
@@ -220,6 +246,11 @@ class StorageManager {
   private localStorage = new LocalStorageManager();
   private indexedDB = new IndexedDBManager();
   private isInitialized = false;
+  private interruptedExperiments: Experiment[] = [];
+  private vaultKey: VaultKey | null = null;
+  private vaultKeys: APIKey[] | null = null; // Decrypted; null while locked
+  private autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+  private vaultListeners = new Set<(state: VaultState) => void>();
 
   async init(): Promise<void> {
     if (this.isInitialized) return;
@@ -231,24 +262,232 @@ class StorageManager {
       console.error('Failed to initialize IndexedDB:', error);
       throw new Error('Storage initialization failed');
     }
+
+    // Nothing can be running yet on a fresh page load, so any experiment still
+    // marked 'running' was cut off by a reload or crash
+    this.interruptedExperiments = await this.getExperimentsByStatus('running');
+  }
+
+  getInterruptedExperiments(): Experiment[] {
+    return [...this.interruptedExperiments];
+  }
+
+  clearInterruptedExperiment(id: string): void {
+    this.interruptedExperiments = this.interruptedExperiments.filter(e => e.id !== id);
+  }
+
+  // ==================== API Key Vault ====================
+
+  getVaultState(): VaultState {
+    if (this.vaultKeys) return 'unlocked';
+    return this.localStorage.get('vault') ? 'locked' : 'unset';
+  }
+
+  /**
+   * Listen for the vault locking or unlocking. Returns an unsubscribe function.
+   */
+  subscribeVault(listener: (state: VaultState) => void): () => void {
+    this.vaultListeners.add(listener);
+    return () => {
+      this.vaultListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Create the vault, moving any plaintext keys from before it into it.
+   */
+  async createVault(passphrase: string): Promise<void> {
+    if (this.getVaultState() !== 'unset') {
+      throw new Error('Key vault already exists');
+    }
+
+    this.vaultKey = await deriveVaultKey(passphrase);
+    this.vaultKeys = this.getStoredKeys();
+    await this.writeVault();
+    this.localStorage.remove('keys');
+    this.vaultChanged();
+  }
+
+  async unlockVault(passphrase: string): Promise<void> {
+    const vault = this.localStorage.get('vault');
+    if (!vault) {
+      throw new Error('No key vault to unlock');
+    }
+
+    const vaultKey = await deriveVaultKey(passphrase, vault.salt, vault.iterations);
+    this.vaultKeys = await openKeys(vault, vaultKey);
+    this.vaultKey = vaultKey;
+    this.vaultChanged();
+  }
+
+  lockVault(): void {
+    if (!this.vaultKeys) return;
+    this.vaultKey = null;
+    this.vaultKeys = null;
+    this.vaultChanged();
+  }
+
+  /**
+   * Re-seal the keys under a new passphrase, with a new salt.
+   */
+  async changeVaultPassphrase(current: string, next: string): Promise<void> {
+    const vault = this.localStorage.get('vault');
+    if (!vault) {
+      throw new Error('No key vault to rotate');
+    }
+
+    const keys = await openKeys(vault, await deriveVaultKey(current, vault.salt, vault.iterations));
+    this.vaultKey = await deriveVaultKey(next);
+    this.vaultKeys = keys;
+    await this.writeVault();
+    this.vaultChanged();
+  }
+
+  /**
+   * Forget the vault and every key in it, for when the passphrase is lost.
+   */
+  resetVault(): void {
+    this.localStorage.remove('vault');
+    this.localStorage.remove('keys');
+    this.localStorage.remove('defaultKeys');
+    this.vaultKey = null;
+    this.vaultKeys = null;
+    this.vaultChanged();
+  }
+
+  // Any use of the keys counts as activity and postpones the auto-lock
+  touchVault(): void {
+    if (!this.vaultKeys) return;
+    if (this.autoLockTimer) clearTimeout(this.autoLockTimer);
+    const minutes = this.getSettings().vaultAutoLockMinutes ?? VAULT_AUTO_LOCK_MINUTES;
+    this.autoLockTimer = setTimeout(() => this.lockVault(), minutes * 60000);
+  }
+
+  private vaultChanged(): void {
+    if (this.autoLockTimer) clearTimeout(this.autoLockTimer);
+    this.autoLockTimer = null;
+    this.touchVault();
+
+    const state = this.getVaultState();
+    this.vaultListeners.forEach(listener => listener(state));
+  }
+
+  private async writeVault(): Promise<void> {
+    this.localStorage.set('vault', await sealKeys(this.vaultKeys!, this.vaultKey!));
   }
 
   // ==================== API Keys ====================
 
-  getAPIKeys(): Record<string, string> {
-    return this.localStorage.get('keys') || {};
+  /**
+   * Every named key in the unlocked vault; empty while it is locked. Before a
+   * vault exists, plaintext keys from earlier versions are returned as they are.
+   */
+  getStoredKeys(): APIKey[] {
+    if (this.getVaultState() === 'unset') {
+      return fromKeyRecord(this.localStorage.get('keys') || {});
+    }
+    this.touchVault();
+    return [...(this.vaultKeys || [])];
+  }
+
+  getDefaultKeyId(providerId: string): string | null {
+    const keys = this.getStoredKeys().filter(k => k.providerId === providerId);
+    const chosen = this.localStorage.get('defaultKeys')?.[providerId];
+    return keys.find(k => k.id === chosen)?.id ?? keys[0]?.id ?? null;
+  }
+
+  setDefaultKey(providerId: string, keyId: string): void {
+    const defaults = this.localStorage.get('defaultKeys') || {};
+    this.localStorage.set('defaultKeys', { ...defaults, [providerId]: keyId });
+  }
+
+  /**
+   * One key per provider, as the runner takes them: the key chosen in keyIds
+   * where there is one, otherwise the provider's default.
+   */
+  getAPIKeys(keyIds: Record<string, string> = {}): Record<string, string> {
+    const keys = this.getStoredKeys();
+    const result: Record<string, string> = {};
+    new Set(keys.map(k => k.providerId)).forEach(providerId => {
+      const id = keys.some(k => k.id === keyIds[providerId])
+        ? keyIds[providerId]
+        : this.getDefaultKeyId(providerId);
+      const key = keys.find(k => k.id === id);
+      if (key) result[providerId] = key.key;
+    });
+    return result;
+  }
+
+  async addKey(providerId: string, name: string, key: string): Promise<APIKey> {
+    const stored: APIKey = {
+      id: `key-${crypto.randomUUID()}`,
+      providerId,
+      name,
+      key,
+      addedAt: new Date().toISOString(),
+    };
+    await this.writeKeys([...this.unlockedKeys('saving'), stored]);
+    return stored;
+  }
+
+  /**
+   * Set a provider's only key, replacing its default. Used by custom
+   * endpoints, which carry a single key.
+   */
+  async setAPIKey(providerId: string, key: string): Promise<void> {
+    const keys = this.unlockedKeys('saving');
+    const defaultId = this.getDefaultKeyId(providerId);
+    if (!defaultId) {
+      await this.addKey(providerId, 'Default', key);
+      return;
+    }
+    await this.writeKeys(keys.map(k => (k.id === defaultId ? { ...k, key } : k)));
   }
 
-  setAPIKey(providerId: string, key: string): void {
-    const keys = this.getAPIKeys();
-    keys[providerId] = key; // TODO: Add encryption
-    this.localStorage.set('keys', keys);
+  async removeKey(keyId: string): Promise<void> {
+    if (this.getVaultState() === 'unset') {
+      const record = this.localStorage.get('keys') || {};
+      const removed = fromKeyRecord(record).find(k => k.id === keyId);
+      if (removed) delete record[removed.providerId];
+      this.localStorage.set('keys', record);
+      return;
+    }
+    await this.writeKeys(this.unlockedKeys('removing').filter(k => k.id !== keyId));
   }
 
-  removeAPIKey(providerId: string): void {
-    const keys = this.getAPIKeys();
-    delete keys[providerId];
-    this.localStorage.set('keys', keys);
+  // Every key the provider holds
+  async removeAPIKey(providerId: string): Promise<void> {
+    const keys = this.getStoredKeys().filter(k => k.providerId === providerId);
+    for (const key of keys) {
+      await this.removeKey(key.id);
+    }
+  }
+
+  private unlockedKeys(action: 'saving' | 'removing'): APIKey[] {
+    if (!this.vaultKeys) {
+      throw new Error(this.getVaultState() === 'unset'
+        ? `Create the Key Vault with a passphrase before ${action} keys`
+        : `Unlock the key vault before ${action} keys`);
+    }
+    return this.vaultKeys;
+  }
+
+  private async writeKeys(keys: APIKey[]): Promise<void> {
+    this.vaultKeys = keys;
+    await this.writeVault();
+    this.touchVault();
+  }
+
+  /**
+   * Running spend per key, summed from the cost of every stored sample drawn
+   * with it.
+   */
+  async getSpendByKey(keyIds: string[]): Promise<Record<string, number>> {
+    const totals = await Promise.all(keyIds.map(async keyId => {
+      const samples = await this.indexedDB.getByIndex('samples', 'keyId', keyId);
+      return [keyId, samples.reduce((sum, sample) => sum + sample.cost, 0)] as const;
+    }));
+    return Object.fromEntries(totals);
   }
 
   // ==================== Settings ====================
@@ -264,6 +503,66 @@ class StorageManager {
 
   setSettings(settings: UserSettings): void {
     this.localStorage.set('settings', settings);
+    // Picks up a changed auto-lock timeout
+    this.touchVault();
+  }
+
+  // ==================== Custom Endpoints ====================
+
+  getCustomEndpoints(): CustomEndpoint[] {
+    return this.localStorage.get('customEndpoints') || [];
+  }
+
+  saveCustomEndpoint(endpoint: CustomEndpoint): void {
+    const endpoints = this.getCustomEndpoints().filter(e => e.id !== endpoint.id);
+    this.localStorage.set('customEndpoints', [...endpoints, endpoint]);
+  }
+
+  async removeCustomEndpoint(id: string): Promise<void> {
+    await this.removeAPIKey(id);
+    this.localStorage.set('customEndpoints', this.getCustomEndpoints().filter(e => e.id !== id));
+
+    const discovered = this.getModelCatalog().discoveredModels;
+    delete discovered[id];
+    this.localStorage.set('discoveredModels', discovered);
+  }
+
+  // ==================== Model Catalog ====================
+
+  getModelCatalog(): ModelCatalog {
+    return {
+      discoveredModels: this.localStorage.get('discoveredModels') || {},
+      pricingOverrides: this.localStorage.get('pricingOverrides') || {},
+    };
+  }
+
+  setDiscoveredModels(providerId: string, modelIds: string[]): void {
+    const discovered = this.getModelCatalog().discoveredModels;
+    this.localStorage.set('discoveredModels', { ...discovered, [providerId]: modelIds });
+  }
+
+  setPricingOverrides(overrides: ModelCatalog['pricingOverrides']): void {
+    this.localStorage.set('pricingOverrides', overrides);
+  }
+
+  // ==================== Key Validation ====================
+
+  getKeyValidations(): Record<string, KeyValidationRecord> {
+    return this.localStorage.get('keyValidations') || {};
+  }
+
+  setKeyValidation(id: string, record: KeyValidationRecord): void {
+    this.localStorage.set('keyValidations', { ...this.getKeyValidations(), [id]: record });
+  }
+
+  // ==================== Token Calibration ====================
+
+  getTokenCalibration(): Record<string, TokenCalibration> {
+    return this.localStorage.get('tokenCalibration') || {};
+  }
+
+  setTokenCalibration(calibration: Record<string, TokenCalibration>): void {
+    this.localStorage.set('tokenCalibration', calibration);
   }
 
   // ==================== Experiments ====================
@@ -291,6 +590,9 @@ class StorageManager {
       this.indexedDB.getByIndex('samples', 'experimentId', id).then(samples =>
         Promise.all(samples.map(sample => this.indexedDB.delete('samples', sample.id)))
       ),
+      this.indexedDB.getByIndex('failures', 'experimentId', id).then(failures =>
+        Promise.all(failures.map(failure => this.indexedDB.delete('failures', failure.id)))
+      ),
       this.indexedDB.delete('results', id)
     ]);
   }
@@ -314,6 +616,20 @@ class StorageManager {
     return this.indexedDB.getByIndex('samples', 'modelId', modelId);
   }
 
+  // ==================== Failures ====================
+
+  async saveFailure(failure: SampleFailure): Promise<void> {
+    await this.indexedDB.put('failures', failure);
+  }
+
+  async deleteFailure(id: string): Promise<void> {
+    await this.indexedDB.delete('failures', id);
+  }
+
+  async getFailuresByExperiment(experimentId: string): Promise<SampleFailure[]> {
+    return this.indexedDB.getByIndex('failures', 'experimentId', experimentId);
+  }
+
   // ==================== Results ====================
 
   async saveResults(results: ExperimentResults): Promise<void> {
@@ -362,6 +678,22 @@ class StorageManager {
     }
   }
 
+  // ==================== Prompt Templates ====================
+
+  getPromptTemplates(): PromptTemplate[] {
+    return [...BUILT_IN_PROMPTS, ...(this.localStorage.get('promptTemplates') || [])];
+  }
+
+  savePromptTemplate(template: PromptTemplate): void {
+    const saved = (this.localStorage.get('promptTemplates') || []).filter(t => t.id !== template.id);
+    this.localStorage.set('promptTemplates', [...saved, template]);
+  }
+
+  deletePromptTemplate(id: string): void {
+    const saved = this.localStorage.get('promptTemplates') || [];
+    this.localStorage.set('promptTemplates', saved.filter(t => t.id !== id));
+  }
+
   // ==================== Cleanup ====================
 
   async clearAllData(): Promise<void> {
@@ -369,6 +701,7 @@ class StorageManager {
     await Promise.all([
       this.indexedDB.clear('experiments'),
       this.indexedDB.clear('samples'),
+      this.indexedDB.clear('failures'),
       this.indexedDB.clear('results'),
       this.indexedDB.clear('stimuli')
     ]);
@@ -0,0 +1,65 @@
+/**
+ * One Word - Token Estimation
+ *
+ * Shared approximation of per-call token counts, used wherever cost has to be
+ * predicted before a provider reports real usage. Calibrated per provider from
+ * the usage numbers of past samples.
+ */
+
+import type { Sample, TokenCalibration, TokenUsage } from './types';
+
+const CHARS_PER_TOKEN = 4;
+const PROMPT_OVERHEAD_TOKENS = 8;  // Message framing; the prompt text itself is counted
+const DEFAULT_OUTPUT_TOKENS = 2;   // One word is often split into two tokens
+
+export function approximateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Uncalibrated input token estimate for a single one-word call, given all the
+ * text it sends.
+ */
+function baseInputTokens(text: string): number {
+  return approximateTokens(text) + PROMPT_OVERHEAD_TOKENS;
+}
+
+export function estimateCallTokens(
+  text: string,
+  calibration?: TokenCalibration
+): TokenUsage {
+  const base = baseInputTokens(text);
+  return {
+    inputTokens: Math.ceil(base * (calibration?.inputRatio ?? 1)),
+    outputTokens: calibration?.outputTokens ?? DEFAULT_OUTPUT_TOKENS,
+  };
+}
+
+/**
+ * Fold the reported usage of a finished run into a provider's calibration,
+ * weighting old and new observations by sample count.
+ */
+export function calibrate(
+  existing: TokenCalibration | undefined,
+  inputText: (sample: Sample) => string,
+  samples: Sample[]
+): TokenCalibration | undefined {
+  const measured = samples.filter(s => s.inputTokens !== undefined && s.outputTokens !== undefined);
+  if (measured.length === 0) return existing;
+
+  const inputRatio = measured.reduce(
+    (sum, s) => sum + s.inputTokens! / baseInputTokens(inputText(s)), 0
+  ) / measured.length;
+  const outputTokens = measured.reduce((sum, s) => sum + s.outputTokens!, 0) / measured.length;
+
+  if (!existing) {
+    return { inputRatio, outputTokens, samples: measured.length };
+  }
+
+  const total = existing.samples + measured.length;
+  return {
+    inputRatio: (existing.inputRatio * existing.samples + inputRatio * measured.length) / total,
+    outputTokens: (existing.outputTokens * existing.samples + outputTokens * measured.length) / total,
+    samples: total,
+  };
+}
@@ -22,28 +22,91 @@ export interface Model {
   generation: string;
   inputCostPer1k: number;
   outputCostPer1k: number;
+  capabilities: ModelCapabilities;
+  discovered?: boolean;     // Listed by the provider's API rather than built in
+  pricingUnknown?: boolean; // No catalog or user price; counted as free
 }
 
+/**
+ * Dollar prices per 1k tokens, keyed by model id.
+ */
+export type PricingCatalog = Record<string, Pick<Model, 'inputCostPer1k' | 'outputCostPer1k'>>;
+
+/**
+ * The locally stored additions to the built-in model list.
+ */
+export interface ModelCatalog {
+  discoveredModels: Record<string, string[]>; // providerId -> model ids from its API
+  pricingOverrides: PricingCatalog;           // User prices, taking precedence over all others
+}
+
+/**
+ * What a model's API accepts. Anything outside this is adjusted before the
+ * request is sent, and the adjustment is recorded on the sample.
+ */
+export interface ModelCapabilities {
+  temperature: { min: number; max: number } | null; // null: fixed, custom values rejected
+  topK: boolean;
+  topP: boolean;
+  logprobs: boolean;
+  systemPrompt: boolean;
+  maxOutputTokens: number;
+  tokenParam?: 'max_tokens' | 'max_completion_tokens'; // OpenAI-style output cap; absent means max_tokens
+  reasoningTokens?: number; // Output tokens reserved for hidden reasoning, on top of the answer
+  thinkingBudget?: number;  // Gemini thinking budget to request; 0 turns thinking off
+}
+
+/**
+ * A user-configured OpenAI-compatible server (llama.cpp, vLLM, Ollama, ...).
+ * Registered as its own provider; its models are namespaced as `${id}/${model}`.
+ */
+export interface CustomEndpoint {
+  id: string;       // Provider id, always prefixed 'custom-'
+  name: string;
+  baseUrl: string;  // Server root; requests go to {baseUrl}/v1/chat/completions
+  models: string[]; // Model names as the server knows them
+  capabilities: ModelCapabilities; // Which sampling parameters the server honours
+}
+
+/**
+ * A named key as kept in the vault. A provider can hold several, one of which
+ * is its default.
+ */
 export interface APIKey {
+  id: string;
   providerId: string;
+  name: string; // e.g. "Personal", "Project", "Org"
   key: string;
-  isValid: boolean;
-  addedAt: string;
+  addedAt?: string; // Absent on keys from before named keys, when it wasn't recorded
 }
 
 export interface ConfiguredKey {
+  keyId: string | null; // null for a keyless custom endpoint
   providerId: string;
+  name: string;
   keyPreview: string;
+  isDefault: boolean;
   isValid: boolean;
   lastValidated: string;
-  addedAt: string;
-  validationError?: string;
+  addedAt?: string;
+  validationError?: string; // Set when refused, or when valid but left unchecked
+  spend: number; // Sum of Sample.cost for samples drawn with this key
 }
 
 export interface KeyValidationResult {
+  isValid: boolean;
+  error?: string;   // Why the key was refused, or why it couldn't be checked
+  models?: Model[]; // Models the provider listed for this key
+}
+
+/**
+ * Outcome of a key's last check, kept so loading the app doesn't probe every
+ * key again. Discovered models are kept in the model catalog.
+ */
+export interface KeyValidationRecord {
   isValid: boolean;
   error?: string;
-  models?: Model[];
+  validatedAt: string;
 }
 
 // ==================== Keys State Management ====================
@@ -74,15 +137,63 @@ export interface StimulusCategory {
   description: string;
 }
 
+/**
+ * How a model is asked for its word. {{stimulus}} is replaced with the
+ * experiment's stimulus in either field; an empty system prompt sends none.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  userPrompt: string;
+  isBuiltIn: boolean;
+}
+
+/**
+ * A turn of conversation sent ahead of the stimulus.
+ */
+export interface ContextTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * What the model has been told before it sees the stimulus: a persona placed
+ * ahead of the prompt's system instruction, and earlier conversation turns.
+ * Either may be empty; a variant with neither is the no-context baseline.
+ */
+export interface ContextVariant {
+  id: string;
+  name: string;
+  persona: string;
+  turns: ContextTurn[];
+}
+
 // ==================== Experiment Configuration ====================
 
 export interface ExperimentConfig {
   temperature: number;
   topK: number;
+  promptId?: string; // PromptTemplate.id; absent means the default prompt
+  stimulus?: string; // One of Experiment.stimuli; absent means Experiment.stimulus
+  contextId?: string; // ContextVariant.id; absent means no context
+}
+
+/**
+ * A stimulus with {slot} placeholders, expanded over every combination of
+ * its slots' values.
+ */
+export interface StimulusTemplate {
+  template: string;
+  values: Record<string, string[]>; // slot name -> values
 }
 
 export interface ExperimentBuilderState {
-  stimulus: string;
+  stimulusMode: 'single' | 'list' | 'template';
+  stimulus: string; // The stimulus, or the template in template mode
+  stimulusList: string[];
+  templateValues: Record<string, string[]>; // slot name -> values
+
   selectedModels: string[];
   temperatureMode: 'single' | 'range';
   temperatureSingle: number;
@@ -95,24 +206,97 @@ export interface ExperimentBuilderState {
   topKMax: number;
   topKSteps: number;
   samplesPerConfig: number;
+  samplingMode: 'fixed' | 'adaptive';
+  adaptiveBatchSize: number;
+  budget: number | null; // Hard spend cap in dollars for this experiment
+  normalization: NormalizationPipeline;
+  probabilityMode: boolean;
+  executionMode: ExecutionMode;
+  keyIds: Record<string, string>; // providerId -> APIKey.id; providers left out use their default
+  promptIds: string[]; // Prompt variants to compare, at least one
+  contexts: ContextVariant[]; // Context variants to compare; empty sends none
+}
+
+/**
+ * Optional stages applied, in this order, after Unicode-aware tokenization
+ * picks the first word of a response. Synonyms are applied last.
+ */
+export type NormalizationStage =
+  | 'strip-articles'   // Skip leading articles ("the", "la", "l'", "die", ...)
+  | 'case-fold'
+  | 'strip-diacritics' // café -> cafe
+  | 'fold-plurals';    // English plural suffixes
+
+export interface NormalizationPipeline {
+  stages: NormalizationStage[];
+  synonyms: Record<string, string>; // Normalized word -> canonical word
+}
+
+/**
+ * Adaptive sampling runs each (model, config) cell in batches and stops once
+ * the word distribution is stable. samplesPerConfig becomes the per-cell cap.
+ */
+export interface AdaptiveSampling {
+  batchSize: number;
+  entropyTolerance: number;    // bits of entropy change between batches
+  unseenMassThreshold: number; // Good-Turing estimate of unseen probability mass
 }
 
 // ==================== Experiment & Results ====================
 
 export interface Experiment {
   id: string;
-  stimulus: string;
+  stimulus: string; // For list and template experiments, the first expanded stimulus
+  stimuli?: string[]; // Every stimulus the grid runs over; absent means just stimulus
+  stimulusTemplate?: StimulusTemplate; // What stimuli was expanded from
   selectedModels: string[];
   configs: ExperimentConfig[];
   samplesPerConfig: number;
+  adaptive?: AdaptiveSampling;
+  normalization?: NormalizationPipeline; // Absent on experiments from before pipelines
+  probabilityMode?: boolean; // Also fetch first-token distributions where supported
+  executionMode?: ExecutionMode; // Absent means interactive
+  batches?: BatchJob[]; // Provider batch jobs submitted for this experiment
+  analytic?: AnalyticDistribution[]; // Fetched so far, so a resumed run doesn't pay for them again
+  keyIds?: Record<string, string>; // providerId -> APIKey.id the run is billed to
+  prompts?: PromptTemplate[]; // Variants as they were when the experiment was created
+  contexts?: ContextVariant[];
   estimatedCost: number;
+  estimatedCostMin?: number; // Lower bound when adaptive sampling may stop early
   actualCost?: number;
+  budget?: number;
   totalCalls: number;
   status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
   progress?: number;
+  stopReason?: ExperimentStopReason;
+}
+
+/**
+ * Batch mode sends every request for a model as one asynchronous provider
+ * batch job at the discounted batch price. Models whose provider has no batch
+ * API still run interactively.
+ */
+export type ExecutionMode = 'interactive' | 'batch';
+
+/**
+ * A submitted provider batch. Kept on the experiment so polling resumes after
+ * a reload instead of resubmitting (and paying for) the same requests.
+ */
+export interface BatchJob {
+  providerId: string;
+  modelId: string;
+  batchId: string;
+  status: 'submitted' | 'ended';
+  requestCount: number;
+  submittedAt: string;
+}
+
+export interface ExperimentStopReason {
+  kind: 'budget' | 'monthly-budget';
+  message: string;
 }
 
 export interface Sample {
@@ -121,34 +305,134 @@ export interface Sample {
   modelId: string;
   temperature: number;
   topK: number;
+  promptId?: string;    // Absent on samples from before prompt variants
+  stimulus?: string;    // Absent on samples from before multi-stimulus experiments
+  contextId?: string;   // Absent when the experiment has no context variants
+  sampleIndex?: number; // Position within its (model, config) cell; used to resume runs
   word: string;
-  latencyMs: number;
+  rawText?: string;              // Completion text before normalization
+  finishReason?: string | null;  // Provider stop/finish reason, verbatim
+  sentParams?: SentParameters;   // What the request carried after capability adjustments
+  latencyMs: number;             // 0 for batch results, which have no per-call timing
+  batchId?: string;              // Provider batch job the sample came from
+  keyId?: string;                // APIKey.id that paid for the sample
+  inputTokens?: number;  // As reported by the provider
+  outputTokens?: number;
   cost: number;
   timestamp: string;
 }
 
+export type FailureKind =
+  | 'rate-limit'
+  | 'auth'
+  | 'timeout'
+  | 'network'
+  | 'content-refusal'
+  | 'parse'
+  | 'server'
+  | 'unknown';
+
+export interface SampleFailure {
+  id: string;
+  experimentId: string;
+  modelId: string;
+  temperature: number;
+  topK: number;
+  promptId?: string;
+  stimulus?: string;
+  contextId?: string;
+  sampleIndex: number;
+  kind: FailureKind;
+  message: string;
+  rawText?: string; // Model output behind a refusal or parse failure, if any
+  attempts: number;
+  timestamp: string;
+}
+
 export interface WordFrequency {
   word: string;
   count: number;
   percentage: number;
+  interval?: [number, number]; // 95% bootstrap interval of percentage, where computed
+}
+
+/**
+ * Entropy in bits by several estimators. Plug-in takes the observed
+ * frequencies at face value and runs low on small samples; the others
+ * correct for words the samples never reached.
+ */
+export interface EntropyEstimate {
+  plugIn: number;
+  millerMadow: number;
+  chaoShen: number;
+  nsb: number;               // NSB-style, with a Chao1 vocabulary size
+  interval: [number, number]; // 95% bootstrap interval of the Chao–Shen estimate
 }
 
 export interface ModelResult {
   modelId: string;
-  config: ExperimentConfig;
+  configs: Pick<ExperimentConfig, 'temperature' | 'topK'>[]; // Every setting the model was sampled at
+  words: WordFrequency[];
+  totalSamples: number;
+  uniqueWords: number;
+  entropyEstimate?: EntropyEstimate;
+}
+
+/**
+ * One model at one (temperature, top-k) setting, pooled over any prompt,
+ * stimulus and context variants.
+ */
+export interface ResultCell {
   words: WordFrequency[];
   totalSamples: number;
   uniqueWords: number;
+  entropy: number; // Plug-in
+  entropyEstimate?: EntropyEstimate;
 }
 
+// modelId -> temperature -> topK -> cell
+export type ResultCube = Record<string, Record<number, Record<number, ResultCell>>>;
+
 export interface ExperimentResults {
   experimentId: string;
   totalSamples: number;
   uniqueWords: number;
   topWords: WordFrequency[];
-  entropy: number;
+  entropy: number; // Plug-in, kept for older results and the community feed
+  entropyEstimate?: EntropyEstimate;
   byModel: ModelResult[];
   byTemperature: Record<number, WordFrequency[]>;
+  entropyByTemperature?: Record<number, EntropyEstimate>;
+  byTopK?: Record<number, WordFrequency[]>;
+  cube?: ResultCube; // Absent on results from before the cube was kept
+  byPrompt?: Record<string, WordFrequency[]>; // PromptTemplate.id -> words
+  byStimulus?: Record<string, WordFrequency[]>; // Stimulus text -> words
+  byContext?: Record<string, WordFrequency[]>; // ContextVariant.id -> words
+  failureCount?: number;
+  failuresByModel?: Record<string, Partial<Record<FailureKind, number>>>;
+  analytic?: AnalyticDistribution[]; // One per (model, config) in probability mode
+  normalization?: NormalizationPipeline; // Set when regenerated under a pipeline other than the experiment's
+}
+
+export interface WordProbability {
+  word: string;
+  probability: number; // 0..1
+}
+
+/**
+ * First-token distribution reported by the provider for one (model, config)
+ * cell, rather than estimated from samples.
+ */
+export interface AnalyticDistribution {
+  modelId: string;
+  temperature: number;
+  topK: number;
+  promptId?: string;
+  stimulus?: string;
+  contextId?: string;
+  words: WordProbability[]; // Ranked, most probable first
+  coverage: number;         // Probability mass of the listed tokens before renormalizing
+  cost?: number;            // Absent on distributions from before their cost was kept
 }
 
 // ==================== Execution & Progress ====================
@@ -156,43 +440,147 @@ export interface ExperimentResults {
 export interface RunProgress {
   totalCalls: number;
   completedCalls: number;
+  failedCalls: number;
   currentModel: string;
   currentConfig: ExperimentConfig;
   estimatedTimeRemaining: number;
   runningCost: number;
+  budgetRemaining: number | null; // Dollars left under the tightest active budget
   recentWords: string[];
 }
 
+interface RunEventBase {
+  experimentId: string;
+}
+
+export type RunEvent =
+  | (RunEventBase & { type: 'model-started'; modelId: string; progress: RunProgress })
+  | (RunEventBase & { type: 'config-started'; modelId: string; config: ExperimentConfig; progress: RunProgress })
+  | (RunEventBase & { type: 'sample-completed'; sample: Sample; progress: RunProgress })
+  | (RunEventBase & { type: 'sample-failed'; failure: SampleFailure; progress: RunProgress })
+  | (RunEventBase & { type: 'completed'; experiment: Experiment; results: ExperimentResults })
+  | (RunEventBase & { type: 'failed'; experiment: Experiment; error: string })
+  | (RunEventBase & { type: 'cancelled'; experiment: Experiment });
+
+export type RunEventListener = (event: RunEvent) => void;
+
+// ==================== Runner Worker Protocol ====================
+
+export type RunnerCommand =
+  | { type: 'start'; experiment: Experiment; apiKeys: Record<string, string>; settings: UserSettings; endpoints: CustomEndpoint[]; catalog: ModelCatalog }
+  | { type: 'resume'; experiment: Experiment; apiKeys: Record<string, string>; settings: UserSettings; endpoints: CustomEndpoint[]; catalog: ModelCatalog }
+  | { type: 'discard'; experiment: Experiment }
+  | { type: 'renormalize'; experiment: Experiment; pipeline: NormalizationPipeline }
+  | { type: 'abort'; experimentId: string };
+
+export interface RunnerRequest {
+  requestId: number;
+  command: RunnerCommand;
+}
+
+export type RunnerMessage =
+  | { type: 'response'; requestId: number; progress?: RunProgress | null; error?: string }
+  | { type: 'event'; event: RunEvent };
+
 // ==================== Provider API Interface ====================
 
 export interface SampleParams {
   model: string;
-  stimulus: string;
+  stimulus: string;      // The user turn, already rendered from the prompt template
+  systemPrompt?: string; // Absent uses the default instruction; empty sends none
+  history?: ContextTurn[]; // Earlier turns, sent before the user turn
   temperature: number;
   topK: number;
   maxTokens?: number;
+  normalization?: NormalizationPipeline;
+}
+
+/**
+ * Sampling parameters as actually sent; null means the parameter was omitted.
+ */
+export interface SentParameters {
+  temperature: number | null;
+  topK: number | null;
+  topP: number | null;
+  maxTokens: number;
+  systemPrompt: boolean; // false when the instruction was folded into the user turn
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface SampleResult {
+  word: string;
+  rawText: string;
+  stopReason: string | null;
+  usage: TokenUsage | null; // null when the provider didn't report usage
+  sent: SentParameters;
+}
+
+export interface ProbabilityResult {
+  words: WordProbability[];
+  coverage: number;
+  usage: TokenUsage | null;
+}
+
+export interface TokenCalibration {
+  inputRatio: number;   // Reported input tokens / base approximation
+  outputTokens: number; // Mean reported output tokens per call
+  samples: number;
 }
 
 export interface CostParams {
   model: string;
   inputTokens: number;
   outputTokens: number;
+  batch?: boolean; // Priced at the batch API discount
 }
 
+export interface BatchRequest {
+  customId: string; // Unique within the batch; matches results back to samples
+  params: SampleParams;
+}
+
+export interface BatchStatus {
+  ended: boolean;
+  completed: number; // Requests finished so far, successfully or not
+  total: number;
+}
+
+export type BatchItemResult =
+  | { customId: string; result: SampleResult }
+  | { customId: string; error: { kind: FailureKind; message: string; rawText?: string } };
+
 export interface ProviderInterface {
   id: string;
   name: string;
-  validateKey: (key: string) => Promise<boolean>;
-  sample: (params: SampleParams, key: string) => Promise<string>;
-  estimateCost: (params: CostParams) => number;
+  validateKey: (key: string) => Promise<string[]>; // Resolves to the model ids the key can use
+  listModels?: (key: string) => Promise<string[]>;
+  sample: (params: SampleParams, key: string) => Promise<SampleResult>;
+  probabilities?: (params: SampleParams, key: string) => Promise<ProbabilityResult>;
+  // Asynchronous batch API, where the provider offers one
+  submitBatch?: (requests: BatchRequest[], key: string) => Promise<string>;
+  batchStatus?: (batchId: string, key: string) => Promise<BatchStatus>;
+  batchResults?: (batchId: string, requests: BatchRequest[], key: string) => Promise<BatchItemResult[]>;
+  cancelBatch?: (batchId: string, key: string) => Promise<void>;
 }
 
 // ==================== Storage Schema ====================
 
 export interface LocalStorageSchema {
-  'keys': Record<string, string>; // providerId -> encrypted key
+  'keys': Record<string, string>; // providerId -> plaintext key; only from before the vault, migrated into it
+  'vault': EncryptedVault;
+  'defaultKeys': Record<string, string>; // providerId -> APIKey.id; the provider's first key when absent
   'settings': UserSettings;
   'stimuli': Stimulus[];
+  'promptTemplates': PromptTemplate[]; // User-saved; built-ins live in code
+  'tokenCalibration': Record<string, TokenCalibration>; // providerId -> calibration
+  'customEndpoints': CustomEndpoint[];
+  'discoveredModels': ModelCatalog['discoveredModels'];
+  'pricingOverrides': ModelCatalog['pricingOverrides'];
+  'keyValidations': Record<string, KeyValidationRecord>; // APIKey.id, or providerId for a keyless endpoint
 }
 
 export interface UserSettings {
@@ -200,6 +588,38 @@ export interface UserSettings {
   defaultSamplesPerConfig: number;
   maxConcurrentRequests: number;
   enableRealTimeResults: boolean;
+  monthlyBudget?: number; // Global spend cap per calendar month, in dollars
+  rateLimits?: Record<string, RateLimitSettings>; // providerId -> limits; defaults when absent
+  vaultAutoLockMinutes?: number; // Idle time before the key vault locks itself
+}
+
+/**
+ * Per-provider request pacing. Requests and tokens refill continuously, so a
+ * full bucket allows a short burst up to the per-minute limit.
+ */
+export interface RateLimitSettings {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  maxConcurrent: number; // Requests in flight at once
+}
+
+/**
+ * 'unset' until the user picks a passphrase; keys saved before the vault
+ * existed stay usable in that state until they are migrated.
+ */
+export type VaultState = 'unset' | 'locked' | 'unlocked';
+
+/**
+ * API keys sealed with AES-GCM under a PBKDF2-derived key. Binary fields are
+ * base64.
+ */
+export interface EncryptedVault {
+  version: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  ciphertext: string; // JSON of APIKey[] (providerId -> key in vaults from before named keys)
+  providerIds: string[]; // Unencrypted, so a locked vault can list what it holds
 }
 
 // ==================== IndexedDB Schema ====================
@@ -208,6 +628,8 @@ export type ExperimentRecord = Experiment;
 
 export type SampleRecord = Sample;
 
+export type SampleFailureRecord = SampleFailure;
+
 export type ExperimentResultsRecord = ExperimentResults;
 
 // ==================== App State ====================
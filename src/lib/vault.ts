@@ -0,0 +1,117 @@
+/**
+ * One Word - Key Vault Encryption
+ *
+ * API keys are sealed with AES-GCM under a key derived from the user's
+ * passphrase with PBKDF2. Only the sealed record reaches localStorage; the
+ * derived key lives in memory while the vault is unlocked and is never
+ * exported, so a reload always asks for the passphrase again.
+ */
+
+import type { APIKey, EncryptedVault } from './types';
+
+const PBKDF2_ITERATIONS = 600000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // Standard AES-GCM nonce size
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+/**
+ * Named keys for a providerId -> key record, the shape keys were kept in
+ * before a provider could hold more than one. Ids are derived from the
+ * provider so repeated conversions agree; when they were added is unknown.
+ */
+export function fromKeyRecord(record: Record<string, string>): APIKey[] {
+  return Object.entries(record).map(([providerId, key]) => ({
+    id: `key-${providerId}`,
+    providerId,
+    name: 'Default',
+    key,
+  }));
+}
+
+/**
+ * The unlocked vault's derived key, with the salt it was derived from so
+ * re-sealing keeps the same passphrase valid.
+ */
+export interface VaultKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+/**
+ * Derive the vault key from a passphrase. Omit the salt to start a new vault
+ * or rotate the passphrase.
+ */
+export async function deriveVaultKey(
+  passphrase: string,
+  salt: string = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES))),
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<VaultKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+  return { key, salt, iterations };
+}
+
+/**
+ * Encrypt the keys under a fresh nonce. Provider ids stay readable so the UI
+ * can show which providers have a key while the vault is locked.
+ */
+export async function sealKeys(keys: APIKey[], vaultKey: VaultKey): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    vaultKey.key,
+    encoder.encode(JSON.stringify(keys))
+  );
+
+  return {
+    version: 1,
+    salt: vaultKey.salt,
+    iterations: vaultKey.iterations,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    providerIds: Array.from(new Set(keys.map(k => k.providerId))),
+  };
+}
+
+/**
+ * Decrypt the keys. AES-GCM authenticates the ciphertext, so a wrong
+ * passphrase fails here rather than producing garbage.
+ */
+export async function openKeys(vault: EncryptedVault, vaultKey: VaultKey): Promise<APIKey[]> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+      vaultKey.key,
+      fromBase64(vault.ciphertext)
+    );
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+
+  const contents: APIKey[] | Record<string, string> = JSON.parse(decoder.decode(plaintext));
+  return Array.isArray(contents) ? contents : fromKeyRecord(contents);
+}
@@ -0,0 +1,76 @@
+interface BudgetInputProps {
+  budget: number | null;
+  monthlyBudget: number | undefined;
+  onBudgetChange: (value: number | null) => void;
+  onMonthlyBudgetChange: (value: number | undefined) => void;
+}
+
+const parseDollars = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+export function BudgetInput({
+  budget,
+  monthlyBudget,
+  onBudgetChange,
+  onMonthlyBudgetChange,
+}: BudgetInputProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between">
+        <label className="obs-etched">Budget</label>
+        <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          Observations stop before crossing either limit
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <BudgetField
+          label="This observation"
+          value={budget ?? undefined}
+          onChange={(value) => onBudgetChange(value)}
+        />
+        <BudgetField
+          label="Monthly cap"
+          value={monthlyBudget}
+          onChange={(value) => onMonthlyBudgetChange(value ?? undefined)}
+        />
+      </div>
+    </div>
+  );
+}
+
+function BudgetField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | null) => void;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>{label}</p>
+      <div className="relative">
+        <span
+          className="absolute left-3 top-1/2 -translate-y-1/2 font-mono text-sm"
+          style={{ color: 'var(--text-tertiary)' }}
+        >
+          $
+        </span>
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={value ?? ''}
+          placeholder="No limit"
+          onChange={(e) => onChange(parseDollars(e.target.value))}
+          className="obs-input w-full pl-7 pr-3 py-2 rounded font-mono text-sm"
+        />
+      </div>
+    </div>
+  );
+}
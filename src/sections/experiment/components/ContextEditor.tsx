@@ -0,0 +1,114 @@
+import type { ContextVariant } from '../../../lib/types';
+import { BASELINE_CONTEXT } from '../../../lib/contexts';
+
+interface ContextEditorProps {
+  contexts: ContextVariant[];
+  onChange: (contexts: ContextVariant[]) => void;
+}
+
+const newVariant = (index: number): ContextVariant => ({
+  id: `context-${crypto.randomUUID()}`,
+  name: `Context ${index}`,
+  persona: '',
+  turns: [],
+});
+
+export function ContextEditor({ contexts, onChange }: ContextEditorProps) {
+  const update = (id: string, changes: Partial<ContextVariant>) =>
+    onChange(contexts.map(context => (context.id === id ? { ...context, ...changes } : context)));
+
+  const updateTurn = (context: ContextVariant, index: number, content: string) =>
+    update(context.id, {
+      turns: context.turns.map((turn, i) => (i === index ? { ...turn, content } : turn)),
+    });
+
+  // Turns are added as exchanges, so the stimulus always follows an assistant turn
+  const addExchange = (context: ContextVariant) =>
+    update(context.id, {
+      turns: [...context.turns, { role: 'user', content: '' }, { role: 'assistant', content: '' }],
+    });
+
+  const removeExchange = (context: ContextVariant, index: number) =>
+    update(context.id, {
+      turns: context.turns.filter((_, i) => i !== index && i !== index + 1),
+    });
+
+  // The first variant comes with a baseline to compare it against
+  const addVariant = () =>
+    onChange(contexts.length === 0
+      ? [BASELINE_CONTEXT, newVariant(1)]
+      : [...contexts, newVariant(contexts.length)]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between">
+        <label className="obs-etched">Context</label>
+        <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          {contexts.length > 0
+            ? `${contexts.length} variants, each run over every setting`
+            : 'Persona and earlier turns sent before the stimulus'}
+        </span>
+      </div>
+
+      {contexts.map(context => (
+        <div key={context.id} className="space-y-2 pl-3" style={{ borderLeft: '1px solid var(--ink-border-subtle)' }}>
+          <div className="flex items-center gap-3">
+            <input
+              value={context.name}
+              onChange={(e) => update(context.id, { name: e.target.value })}
+              placeholder="Variant name"
+              className="obs-input flex-1 px-3 py-1.5 text-sm"
+            />
+            <button
+              onClick={() => onChange(contexts.filter(c => c.id !== context.id))}
+              className="obs-button-ghost text-xs"
+            >
+              Remove
+            </button>
+          </div>
+
+          {context.id !== BASELINE_CONTEXT.id && (
+            <>
+              <textarea
+                value={context.persona}
+                rows={2}
+                onChange={(e) => update(context.id, { persona: e.target.value })}
+                placeholder="Persona, e.g. You are a marine biologist. (leave empty for none)"
+                className="obs-input w-full px-3 py-2 text-sm resize-none"
+              />
+
+              {context.turns.map((turn, index) => (
+                <div key={index} className="flex items-start gap-3">
+                  <span className="obs-etched text-[10px] w-16 pt-2.5 shrink-0">{turn.role}</span>
+                  <textarea
+                    value={turn.content}
+                    rows={1}
+                    onChange={(e) => updateTurn(context, index, e.target.value)}
+                    placeholder={turn.role === 'user' ? 'Earlier user message' : 'Earlier model reply'}
+                    className="obs-input flex-1 px-3 py-2 text-sm resize-none"
+                  />
+                  {turn.role === 'user' && (
+                    <button
+                      onClick={() => removeExchange(context, index)}
+                      className="obs-button-ghost text-xs pt-2"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              <button onClick={() => addExchange(context)} className="obs-button-ghost text-xs">
+                Add Earlier Exchange
+              </button>
+            </>
+          )}
+        </div>
+      ))}
+
+      <button onClick={addVariant} className="obs-button-ghost text-xs">
+        {contexts.length === 0 ? 'Add Context' : 'Add Variant'}
+      </button>
+    </div>
+  );
+}
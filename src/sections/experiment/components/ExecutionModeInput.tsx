@@ -0,0 +1,37 @@
+import type { ExecutionMode } from '../../../lib/types';
+
+interface ExecutionModeInputProps {
+  mode: ExecutionMode;
+  supportedModels: string[]; // Selected models whose provider has a batch API
+  onChange: (mode: ExecutionMode) => void;
+}
+
+export function ExecutionModeInput({
+  mode,
+  supportedModels,
+  onChange,
+}: ExecutionModeInputProps) {
+  const unavailable = supportedModels.length === 0;
+
+  return (
+    <div className="space-y-2">
+      <label
+        className="flex items-center gap-3 cursor-pointer"
+        style={{ opacity: unavailable ? 0.5 : 1 }}
+      >
+        <input
+          type="checkbox"
+          checked={mode === 'batch' && !unavailable}
+          disabled={unavailable}
+          onChange={(e) => onChange(e.target.checked ? 'batch' : 'interactive')}
+        />
+        <span className="obs-etched">Batch API</span>
+      </label>
+      <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+        {unavailable
+          ? 'None of the selected models offer a batch API'
+          : `${supportedModels.length} selected model${supportedModels.length === 1 ? '' : 's'} run as one batch job each at half price. Results can take up to 24 hours and keep arriving across reloads; other models run normally.`}
+      </p>
+    </div>
+  );
+}
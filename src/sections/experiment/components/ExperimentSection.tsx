@@ -5,30 +5,63 @@ import { ModelSelector } from './ModelSelector';
 import { ObservationProgress } from './ObservationProgress';
 import { WordEmergence } from './WordEmergence';
 import { ResultsView } from './ResultsView';
+import { ResumePrompt } from './ResumePrompt';
+import { BudgetInput } from './BudgetInput';
+import { NormalizationInput } from './NormalizationInput';
+import { ProbabilityModeInput } from './ProbabilityModeInput';
+import { ExecutionModeInput } from './ExecutionModeInput';
+import { KeySelector } from './KeySelector';
+import { PromptSelector } from './PromptSelector';
+import { ContextEditor } from './ContextEditor';
+import { LiveWordStream } from './Visualizations';
 import type {
   Provider,
   ConfiguredKey,
   ExperimentBuilderState,
   Experiment,
   ExperimentResults,
+  NormalizationPipeline,
+  PromptTemplate,
+  Sample,
+  SampleFailure,
+  UserSettings,
   RunProgress as RunProgressType
 } from '../../../lib/types';
+import { DEFAULT_NORMALIZATION } from '../../../lib/normalize';
+import { parameterWarnings } from '../../../lib/providers';
+import { DEFAULT_PROMPT } from '../../../lib/prompts';
+import { MAX_STIMULI, builderStimuli } from '../../../lib/stimuli';
+import { callText } from '../../../lib/contexts';
 
 interface ExperimentSectionProps {
   providers: Provider[];
   configuredKeys: ConfiguredKey[];
   currentExperiment: Experiment | null;
   runProgress: RunProgressType | null;
+  liveWordCounts: Record<string, number>; // Sampled word -> samples so far
+  interruptedExperiments: Experiment[];
+  settings: UserSettings;
+  onSettingsChange: (settings: UserSettings) => void;
+  estimateCallCost: (modelId: string, text: string, batch?: boolean) => number; // text as callText gives it
+  supportsProbabilities: (modelId: string) => boolean;
+  supportsBatch: (modelId: string) => boolean;
+  promptTemplates: PromptTemplate[]; // Built-in and saved
+  onSavePromptTemplate: (template: PromptTemplate) => void;
+  onDeletePromptTemplate: (id: string) => void;
+  vaultLocked: boolean; // Runs can't start until the key vault is unlocked
   onCreateExperiment: (config: ExperimentBuilderState) => Promise<Experiment>;
   onRunExperiment: (experiment: Experiment) => Promise<void>;
   onStopExperiment: () => Promise<void>;
+  onResumeExperiment: (experiment: Experiment) => Promise<void>;
+  onDiscardExperiment: (experiment: Experiment) => Promise<void>;
+  onRenormalizeResults: (experiment: Experiment, pipeline: NormalizationPipeline) => Promise<ExperimentResults | null>;
 }
 
-const TOKENS_PER_CALL = 50; // ~input tokens per call
-const OUTPUT_TOKENS = 2;    // one word ≈ 2 tokens
-
 const defaultState: ExperimentBuilderState = {
+  stimulusMode: 'single',
   stimulus: '',
+  stimulusList: [],
+  templateValues: {},
   selectedModels: [],
   temperatureMode: 'single',
   temperatureSingle: 0.7,
@@ -41,6 +74,15 @@ const defaultState: ExperimentBuilderState = {
   topKMax: 100,
   topKSteps: 3,
   samplesPerConfig: 100,
+  samplingMode: 'fixed',
+  adaptiveBatchSize: 20,
+  budget: null,
+  normalization: DEFAULT_NORMALIZATION,
+  probabilityMode: false,
+  executionMode: 'interactive',
+  keyIds: {},
+  promptIds: [DEFAULT_PROMPT.id],
+  contexts: [],
 };
 
 export function ExperimentSection({
@@ -48,12 +90,28 @@ export function ExperimentSection({
   configuredKeys,
   currentExperiment,
   runProgress,
+  liveWordCounts,
+  interruptedExperiments,
+  settings,
+  onSettingsChange,
+  estimateCallCost,
+  supportsProbabilities,
+  supportsBatch,
+  promptTemplates,
+  onSavePromptTemplate,
+  onDeletePromptTemplate,
+  vaultLocked,
   onCreateExperiment,
   onRunExperiment,
   onStopExperiment,
+  onResumeExperiment,
+  onDiscardExperiment,
+  onRenormalizeResults,
 }: ExperimentSectionProps) {
   const [state, setState] = useState<ExperimentBuilderState>(defaultState);
   const [results, setResults] = useState<ExperimentResults | null>(null);
+  const [samples, setSamples] = useState<Sample[]>([]);
+  const [failures, setFailures] = useState<SampleFailure[]>([]);
 
   const allModels = providers.flatMap(p => p.models);
   const validProviderIds = configuredKeys
@@ -63,27 +121,65 @@ export function ExperimentSection({
     validProviderIds.includes(model.providerId)
   );
 
-  const configCount =
+  const stimuli = builderStimuli(state);
+  const contexts = state.contexts.length > 0 ? state.contexts : [undefined];
+  // Configs for each (stimulus, context) pair
+  const settingsCount =
     (state.temperatureMode === 'single' ? 1 : state.temperatureSteps) *
     (state.topKMode === 'single' ? 1 : state.topKSteps);
+  const configsPerStimulus = settingsCount * state.promptIds.length;
+  const configCount = configsPerStimulus * Math.max(1, stimuli.length) * contexts.length;
   const totalCalls = state.selectedModels.length * configCount * state.samplesPerConfig;
+  // Adaptive cells can stop after two batches; fixed runs always use the full count
+  const minSamplesPerConfig = state.samplingMode === 'adaptive'
+    ? Math.min(state.adaptiveBatchSize * 2, state.samplesPerConfig)
+    : state.samplesPerConfig;
+  const minTotalCalls = state.selectedModels.length * configCount * minSamplesPerConfig;
+  const isAdaptive = state.samplingMode === 'adaptive';
   const isRunning = currentExperiment?.status === 'running';
   const isCompleted = currentExperiment?.status === 'completed';
 
-  // Estimate cost using model pricing from providers data
-  const estimatedCost = state.selectedModels.reduce((total, modelId) => {
-    const model = allModels.find(m => m.id === modelId);
-    if (!model) return total;
-    const callsForModel = configCount * state.samplesPerConfig;
-    const inputCost = (TOKENS_PER_CALL / 1000) * model.inputCostPer1k * callsForModel;
-    const outputCost = (OUTPUT_TOKENS / 1000) * model.outputCostPer1k * callsForModel;
-    return total + inputCost + outputCost;
-  }, 0);
+  // Estimate cost from calibrated per-call token counts and model pricing
+  const isBatch = state.executionMode === 'batch';
+  const prompts = state.promptIds
+    .map(id => promptTemplates.find(t => t.id === id))
+    .filter((t): t is PromptTemplate => !!t);
+  const costPerSample = state.selectedModels.reduce(
+    (total, modelId) => total + settingsCount * (prompts.length > 0 ? prompts : [DEFAULT_PROMPT]).reduce(
+      (promptSum, prompt) => promptSum + stimuli.reduce(
+        (sum, stimulus) => sum + contexts.reduce(
+          (contextSum, context) => contextSum + estimateCallCost(modelId, callText(prompt, stimulus, context), isBatch),
+          0
+        ),
+        0
+      ),
+      0
+    ),
+    0
+  );
+  const estimatedCost = costPerSample * state.samplesPerConfig;
+  const estimatedCostMin = costPerSample * minSamplesPerConfig;
+  const unpricedModels = allModels.filter(
+    model => model.pricingUnknown && state.selectedModels.includes(model.id)
+  );
+
+  // Only the extremes matter for clamping
+  const temperatures = state.temperatureMode === 'single'
+    ? [state.temperatureSingle]
+    : [state.temperatureMin, state.temperatureMax];
+  const warnings = allModels
+    .filter(model => state.selectedModels.includes(model.id))
+    .flatMap(model => parameterWarnings(model, temperatures, state.topKMode === 'range'));
+
+  const hasEmptyTurns = state.contexts.some(context => context.turns.some(turn => !turn.content.trim()));
 
   const canRun =
-    state.stimulus.trim().length > 0 &&
+    stimuli.length > 0 &&
+    stimuli.length <= MAX_STIMULI &&
+    !hasEmptyTurns &&
     state.selectedModels.length > 0 &&
     !isRunning &&
+    !vaultLocked &&
     availableModels.length > 0;
 
   const handleRun = async () => {
@@ -101,6 +197,8 @@ export function ExperimentSection({
         storage.getResults(currentExperiment.id).then(results => {
           if (results) setResults(results);
         });
+        storage.getSamplesByExperiment(currentExperiment.id).then(setSamples);
+        storage.getFailuresByExperiment(currentExperiment.id).then(setFailures);
       });
     }
   }, [currentExperiment?.id, currentExperiment?.status]);
@@ -111,10 +209,12 @@ export function ExperimentSection({
       <div className="space-y-12 stagger-children">
         <ObservationProgress
           progress={runProgress}
-          stimulus={state.stimulus}
+          stimulus={currentExperiment.stimulus}
+          budget={currentExperiment.budget}
           onStop={onStopExperiment}
         />
-        <WordEmergence words={runProgress.recentWords} />
+        <LiveWordStream experimentId={currentExperiment.id} progress={runProgress} />
+        <WordEmergence counts={liveWordCounts} recent={runProgress.recentWords} />
       </div>
     );
   }
@@ -129,11 +229,24 @@ export function ExperimentSection({
             {results.totalSamples.toLocaleString()} samples collected
           </p>
         </div>
-        <ResultsView results={results} />
+        <ResultsView
+          results={results}
+          samples={samples}
+          failures={failures}
+          normalization={currentExperiment.normalization}
+          prompts={currentExperiment.prompts}
+          contexts={currentExperiment.contexts}
+          onRenormalize={async (pipeline) => {
+            const regenerated = await onRenormalizeResults(currentExperiment, pipeline);
+            if (regenerated) setResults(regenerated);
+          }}
+        />
         <div className="text-center">
           <button
             onClick={() => {
               setResults(null);
+              setSamples([]);
+              setFailures([]);
             }}
             className="obs-button-ghost"
           >
@@ -156,10 +269,39 @@ export function ExperimentSection({
         </p>
       </div>
 
+      {/* Runs cut off by a reload or crash */}
+      <ResumePrompt
+        experiments={interruptedExperiments}
+        onResume={onResumeExperiment}
+        onDiscard={onDiscardExperiment}
+      />
+
       {/* Stimulus - the focal point */}
       <StimulusInput
+        mode={state.stimulusMode}
         value={state.stimulus}
+        list={state.stimulusList}
+        templateValues={state.templateValues}
+        expanded={stimuli}
+        onModeChange={(stimulusMode) => setState({ ...state, stimulusMode })}
         onChange={(stimulus) => setState({ ...state, stimulus })}
+        onListChange={(stimulusList) => setState({ ...state, stimulusList })}
+        onTemplateValuesChange={(templateValues) => setState({ ...state, templateValues })}
+      />
+
+      {/* Instruction variants */}
+      <PromptSelector
+        templates={promptTemplates}
+        selectedIds={state.promptIds}
+        onChange={(promptIds) => setState({ ...state, promptIds })}
+        onSave={onSavePromptTemplate}
+        onDelete={onDeletePromptTemplate}
+      />
+
+      {/* Persona and conversation variants */}
+      <ContextEditor
+        contexts={state.contexts}
+        onChange={(contexts) => setState({ ...state, contexts })}
       />
 
       {/* Parameters */}
@@ -186,6 +328,16 @@ export function ExperimentSection({
         onTopKStepsChange={(steps) => setState({ ...state, topKSteps: steps })}
         samples={state.samplesPerConfig}
         onSamplesChange={(samples) => setState({ ...state, samplesPerConfig: samples })}
+        samplingMode={state.samplingMode}
+        batchSize={state.adaptiveBatchSize}
+        onSamplingModeChange={(mode) => setState({
+          ...state,
+          samplingMode: mode,
+          // Batches are submitted whole, so adaptive stopping needs interactive calls
+          executionMode: mode === 'adaptive' ? 'interactive' : state.executionMode,
+        })}
+        onBatchSizeChange={(size) => setState({ ...state, adaptiveBatchSize: size })}
+        warnings={warnings}
       />
 
       {/* Models */}
@@ -197,6 +349,46 @@ export function ExperimentSection({
         onChange={(selectedModels) => setState({ ...state, selectedModels })}
       />
 
+      {/* Which key each provider is billed to */}
+      <KeySelector
+        providers={providers.filter(p => p.models.some(m => state.selectedModels.includes(m.id)))}
+        configuredKeys={configuredKeys}
+        keyIds={state.keyIds}
+        onChange={(providerId, keyId) => setState({ ...state, keyIds: { ...state.keyIds, [providerId]: keyId } })}
+      />
+
+      {/* Logprob distribution alongside sampling */}
+      <ProbabilityModeInput
+        enabled={state.probabilityMode}
+        supportedModels={state.selectedModels.filter(supportsProbabilities)}
+        onChange={(probabilityMode) => setState({ ...state, probabilityMode })}
+      />
+
+      {/* Discounted asynchronous execution */}
+      <ExecutionModeInput
+        mode={state.executionMode}
+        supportedModels={state.selectedModels.filter(supportsBatch)}
+        onChange={(executionMode) => setState({
+          ...state,
+          executionMode,
+          samplingMode: executionMode === 'batch' ? 'fixed' : state.samplingMode,
+        })}
+      />
+
+      {/* How responses become words */}
+      <NormalizationInput
+        pipeline={state.normalization}
+        onChange={(normalization) => setState({ ...state, normalization })}
+      />
+
+      {/* Spend limits */}
+      <BudgetInput
+        budget={state.budget}
+        monthlyBudget={settings.monthlyBudget}
+        onBudgetChange={(budget) => setState({ ...state, budget })}
+        onMonthlyBudgetChange={(monthlyBudget) => onSettingsChange({ ...settings, monthlyBudget })}
+      />
+
       {/* Observation summary & action */}
       <div className="text-center space-y-6">
         {/* Summary */}
@@ -205,6 +397,7 @@ export function ExperimentSection({
           <div className="text-center">
             <p className="obs-etched mb-1">Total Calls</p>
             <p className="font-mono text-xl" style={{ color: 'var(--text-primary)' }}>
+              {isAdaptive && `${minTotalCalls.toLocaleString()}–`}
               {totalCalls.toLocaleString()}
             </p>
           </div>
@@ -217,19 +410,34 @@ export function ExperimentSection({
           <div className="text-center">
             <p className="obs-etched mb-1">Est. Time</p>
             <p className="font-mono text-xl" style={{ color: 'var(--text-primary)' }}>
-              ~{Math.ceil(totalCalls / 60)}m
+              ~{isAdaptive && `${Math.ceil(minTotalCalls / 60)}–`}{Math.ceil(totalCalls / 60)}m
             </p>
           </div>
           <div className="text-center">
             <p className="obs-etched mb-1">Est. Cost</p>
             <p className="font-mono text-xl" style={{ color: 'var(--brass)' }}>
-              ${estimatedCost.toFixed(2)}
+              {isAdaptive && `$${estimatedCostMin.toFixed(2)}–`}${estimatedCost.toFixed(2)}
             </p>
           </div>
         </div>
+        {state.budget !== null && estimatedCostMin > state.budget && (
+          <p className="text-sm" style={{ color: 'var(--error)' }}>
+            Estimated cost exceeds the ${state.budget.toFixed(2)} budget. The observation will stop early.
+          </p>
+        )}
+        {currentExperiment?.stopReason && (
+          <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+            Last observation: {currentExperiment.stopReason.message}.
+          </p>
+        )}
+        {unpricedModels.length > 0 && (
+          <p className="text-sm" style={{ color: 'var(--warning)' }}>
+            No known price for {unpricedModels.map(m => m.name).join(', ')}. The estimate and budget count them as free.
+          </p>
+        )}
         {estimatedCost > 10 && (
           <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
-            This observation will cost more than $10. Consider reducing samples or models.
+            This observation {isAdaptive ? 'may' : 'will'} cost more than $10. Consider reducing samples or models.
           </p>
         )}
         <div className="obs-rule" />
@@ -245,9 +453,13 @@ export function ExperimentSection({
 
         {!canRun && (
           <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
-            {!state.stimulus.trim() && 'Enter a stimulus. '}
+            {stimuli.length === 0 && 'Enter a stimulus. '}
+            {stimuli.length > MAX_STIMULI && `Use at most ${MAX_STIMULI} stimuli. `}
+            {hasEmptyTurns && 'Fill in or remove empty context turns. '}
             {state.selectedModels.length === 0 && 'Select at least one model. '}
-            {availableModels.length === 0 && 'Configure API keys first.'}
+            {vaultLocked
+              ? 'Unlock the key vault first.'
+              : availableModels.length === 0 && 'Configure API keys first.'}
           </p>
         )}
       </div>
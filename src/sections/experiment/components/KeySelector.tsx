@@ -0,0 +1,52 @@
+import type { ConfiguredKey, Provider } from '../../../lib/types';
+
+interface KeySelectorProps {
+  providers: Provider[]; // Providers of the selected models
+  configuredKeys: ConfiguredKey[];
+  keyIds: Record<string, string>; // providerId -> chosen keyId; absent means the default
+  onChange: (providerId: string, keyId: string) => void;
+}
+
+export function KeySelector({
+  providers,
+  configuredKeys,
+  keyIds,
+  onChange,
+}: KeySelectorProps) {
+  // Only providers with a choice to make
+  const choices = providers
+    .map(provider => ({
+      provider,
+      keys: configuredKeys.filter(k => k.providerId === provider.id && k.keyId),
+    }))
+    .filter(({ keys }) => keys.length > 1);
+
+  if (choices.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <span className="obs-etched">Bill To</span>
+      {choices.map(({ provider, keys }) => {
+        const defaultKey = keys.find(k => k.isDefault) ?? keys[0];
+        return (
+          <div key={provider.id} className="flex items-center gap-3">
+            <span className="text-sm w-32 truncate" style={{ color: 'var(--text-secondary)' }}>
+              {provider.name}
+            </span>
+            <select
+              value={keyIds[provider.id] ?? defaultKey.keyId!}
+              onChange={(e) => onChange(provider.id, e.target.value)}
+              className="obs-select flex-1 px-2 py-1 text-sm"
+            >
+              {keys.map(key => (
+                <option key={key.keyId} value={key.keyId!} disabled={!key.isValid}>
+                  {key.name}{key.isDefault ? ' (default)' : ''} · {key.keyPreview} · ${key.spend.toFixed(2)} spent
+                </option>
+              ))}
+            </select>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -8,6 +8,20 @@ interface ModelSelectorProps {
   onChange: (selected: string[]) => void;
 }
 
+// Short notes on parameters a model won't take as given
+const capabilityNotes = (model: Model): string[] => {
+  const { capabilities } = model;
+  const notes: string[] = [];
+  if (!capabilities.temperature) {
+    notes.push('fixed T');
+  } else if (capabilities.temperature.max < 2) {
+    notes.push(`T≤${capabilities.temperature.max}`);
+  }
+  if (!capabilities.topK) notes.push('no top-k');
+  if (capabilities.logprobs) notes.push('logprobs');
+  return notes;
+};
+
 export function ModelSelector({
   providers,
   availableModels,
@@ -18,9 +32,9 @@ export function ModelSelector({
   const availableIds = new Set(availableModels.map((m) => m.id));
 
   const getProviderStatus = (providerId: string) => {
-    const key = configuredKeys.find(k => k.providerId === providerId);
-    if (!key) return 'no-key';
-    return key.isValid ? 'valid' : 'invalid';
+    const keys = configuredKeys.filter(k => k.providerId === providerId);
+    if (keys.length === 0) return 'no-key';
+    return keys.some(k => k.isValid) ? 'valid' : 'invalid';
   };
 
   const toggleModel = (modelId: string) => {
@@ -112,6 +126,25 @@ export function ModelSelector({
                       >
                         {model.name}
                       </span>
+
+                      {/* Capability notes */}
+                      <span
+                        className="ml-auto text-[10px] font-mono whitespace-nowrap"
+                        style={{ color: 'var(--text-tertiary)' }}
+                      >
+                        {capabilityNotes(model).join(' · ')}
+                      </span>
+
+                      {/* Pricing flag */}
+                      {model.pricingUnknown && (
+                        <span
+                          className="text-[10px] font-mono whitespace-nowrap"
+                          style={{ color: 'var(--warning)' }}
+                          title="No known price; counted as free. Set one under API Keys."
+                        >
+                          $?
+                        </span>
+                      )}
                     </button>
                   );
                 })}
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import type { NormalizationPipeline, NormalizationStage } from '../../../lib/types';
+
+interface NormalizationInputProps {
+  pipeline: NormalizationPipeline;
+  onChange: (pipeline: NormalizationPipeline) => void;
+}
+
+const STAGES: ReadonlyArray<{ value: NormalizationStage; label: string; hint: string }> = [
+  { value: 'strip-articles', label: 'Articles', hint: '"the ocean" → ocean' },
+  { value: 'case-fold', label: 'Case', hint: 'Ocean → ocean' },
+  { value: 'strip-diacritics', label: 'Diacritics', hint: 'café → cafe' },
+  { value: 'fold-plurals', label: 'Plurals', hint: 'oceans → ocean' },
+];
+
+// One "word = canonical" pair per line
+const parseSynonyms = (text: string): Record<string, string> => {
+  const synonyms: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const [from, to] = line.split('=').map(part => part.trim());
+    if (from && to) synonyms[from] = to;
+  });
+  return synonyms;
+};
+
+const formatSynonyms = (synonyms: Record<string, string>): string =>
+  Object.entries(synonyms).map(([from, to]) => `${from} = ${to}`).join('\n');
+
+export function NormalizationInput({ pipeline, onChange }: NormalizationInputProps) {
+  // Keep the raw text so half-typed lines aren't discarded while editing
+  const [synonymText, setSynonymText] = useState(() => formatSynonyms(pipeline.synonyms));
+
+  const toggleStage = (stage: NormalizationStage) => {
+    const stages = pipeline.stages.includes(stage)
+      ? pipeline.stages.filter(s => s !== stage)
+      : [...pipeline.stages, stage];
+    onChange({ ...pipeline, stages });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between">
+        <label className="obs-etched">Normalization</label>
+        <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          How each response is reduced to one word
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {STAGES.map(stage => {
+          const active = pipeline.stages.includes(stage.value);
+          return (
+            <button
+              key={stage.value}
+              onClick={() => toggleStage(stage.value)}
+              title={stage.hint}
+              className="px-3 py-1 rounded-full text-xs transition-all"
+              style={{
+                background: active ? 'var(--brass)' : 'var(--ink-deepest)',
+                color: active ? 'var(--ink-deepest)' : 'var(--text-tertiary)',
+                border: '1px solid var(--ink-border)',
+              }}
+            >
+              {stage.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          Synonyms, one per line (sea = ocean)
+        </p>
+        <textarea
+          value={synonymText}
+          rows={3}
+          placeholder="sea = ocean"
+          onChange={(e) => {
+            setSynonymText(e.target.value);
+            onChange({ ...pipeline, synonyms: parseSynonyms(e.target.value) });
+          }}
+          className="obs-input w-full px-3 py-2 rounded font-mono text-sm"
+        />
+      </div>
+    </div>
+  );
+}
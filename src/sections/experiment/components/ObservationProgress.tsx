@@ -3,10 +3,11 @@ import type { RunProgress } from '../../../lib/types';
 interface ObservationProgressProps {
   progress: RunProgress;
   stimulus: string;
+  budget?: number;
   onStop: () => void;
 }
 
-export function ObservationProgress({ progress, stimulus, onStop }: ObservationProgressProps) {
+export function ObservationProgress({ progress, stimulus, budget, onStop }: ObservationProgressProps) {
   const percentage = Math.round((progress.completedCalls / progress.totalCalls) * 100);
   const circumference = 2 * Math.PI * 80;
   const strokeDashoffset = circumference - (percentage / 100) * circumference;
@@ -122,6 +123,29 @@ export function ObservationProgress({ progress, stimulus, onStop }: ObservationP
             ${progress.runningCost.toFixed(3)}
           </p>
         </div>
+        {progress.budgetRemaining !== null && (
+          <div className="text-center">
+            <p className="obs-etched mb-1">Budget Left</p>
+            <p
+              className="font-mono"
+              style={{
+                color: budget !== undefined && progress.budgetRemaining < budget * 0.1
+                  ? 'var(--error)'
+                  : 'var(--text-primary)',
+              }}
+            >
+              ${Math.max(0, progress.budgetRemaining).toFixed(3)}
+            </p>
+          </div>
+        )}
+        {progress.failedCalls > 0 && (
+          <div className="text-center">
+            <p className="obs-etched mb-1">Failed</p>
+            <p className="font-mono" style={{ color: 'var(--error)' }}>
+              {progress.failedCalls.toLocaleString()}
+            </p>
+          </div>
+        )}
         <div className="text-center">
           <p className="obs-etched mb-1">Current Model</p>
           <p className="font-mono text-sm truncate max-w-[120px]" style={{ color: 'var(--text-primary)' }}>
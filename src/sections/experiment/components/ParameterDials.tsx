@@ -24,8 +24,24 @@ interface ParameterDialsProps {
   // Samples
   samples: number;
   onSamplesChange: (value: number) => void;
+  samplingMode: 'fixed' | 'adaptive';
+  batchSize: number;
+  onSamplingModeChange: (mode: 'fixed' | 'adaptive') => void;
+  onBatchSizeChange: (value: number) => void;
+  // Settings the selected models will not honour as given
+  warnings: string[];
 }
 
+const RANGE_MODES = [
+  { value: 'single', label: 'Single' },
+  { value: 'range', label: 'Range' },
+] as const;
+
+const SAMPLING_MODES = [
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'adaptive', label: 'Adaptive' },
+] as const;
+
 export function ParameterDials({
   temperatureMode,
   temperatureSingle,
@@ -49,6 +65,11 @@ export function ParameterDials({
   onTopKStepsChange,
   samples,
   onSamplesChange,
+  samplingMode,
+  batchSize,
+  onSamplingModeChange,
+  onBatchSizeChange,
+  warnings,
 }: ParameterDialsProps) {
   return (
     <div className="space-y-8">
@@ -57,7 +78,6 @@ export function ParameterDials({
       {/* Temperature */}
       <RangeParameter
         label="Temperature"
-        note="Anthropic capped at 1.0"
         mode={temperatureMode}
         singleValue={temperatureSingle}
         minValue={temperatureMin}
@@ -89,18 +109,32 @@ export function ParameterDials({
         onStepsChange={onTopKStepsChange}
       />
 
-      {/* Samples - always single value */}
+      {/* What the selected models will change */}
+      {warnings.length > 0 && (
+        <div className="space-y-1">
+          {warnings.map((warning) => (
+            <p key={warning} className="text-xs" style={{ color: 'var(--warning)' }}>
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Samples - fixed count, or a per-cell cap when adaptive */}
       <div className="space-y-3">
-        <div className="flex items-baseline justify-between">
+        <div className="flex items-center justify-between">
           <div>
             <span className="obs-etched">Samples</span>
             <span className="text-xs ml-2" style={{ color: 'var(--text-tertiary)' }}>
-              (per configuration)
+              ({samplingMode === 'adaptive' ? 'max per configuration' : 'per configuration'})
+            </span>
+          </div>
+          <div className="flex items-center gap-4">
+            <ModeToggle mode={samplingMode} options={SAMPLING_MODES} onChange={onSamplingModeChange} />
+            <span className="font-mono text-lg tabular-nums" style={{ color: 'var(--brass)' }}>
+              {samples}
             </span>
           </div>
-          <span className="font-mono text-lg tabular-nums" style={{ color: 'var(--brass)' }}>
-            {samples}
-          </span>
         </div>
         <SliderTrack
           value={samples}
@@ -121,6 +155,26 @@ export function ParameterDials({
             </button>
           ))}
         </div>
+
+        {samplingMode === 'adaptive' && (
+          <div className="space-y-3 pt-2">
+            <div className="flex items-baseline justify-between">
+              <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                Batch size — stops once entropy settles between batches
+              </span>
+              <span className="font-mono tabular-nums" style={{ color: 'var(--text-secondary)' }}>
+                {batchSize}
+              </span>
+            </div>
+            <SliderTrack
+              value={batchSize}
+              min={5}
+              max={100}
+              step={5}
+              onChange={onBatchSizeChange}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -171,7 +225,7 @@ function RangeParameter({
             </span>
           )}
         </div>
-        <ModeToggle mode={mode} onChange={onModeChange} />
+        <ModeToggle mode={mode} options={RANGE_MODES} onChange={onModeChange} />
       </div>
 
       {mode === 'single' ? (
@@ -290,38 +344,33 @@ function RangeParameter({
   );
 }
 
-function ModeToggle({
+function ModeToggle<T extends string>({
   mode,
+  options,
   onChange,
 }: {
-  mode: 'single' | 'range';
-  onChange: (mode: 'single' | 'range') => void;
+  mode: T;
+  options: ReadonlyArray<{ value: T; label: string }>;
+  onChange: (mode: T) => void;
 }) {
   return (
     <div
       className="flex rounded-full p-0.5"
       style={{ background: 'var(--ink-deepest)', border: '1px solid var(--ink-border)' }}
     >
-      <button
-        onClick={() => onChange('single')}
-        className="px-3 py-1 rounded-full text-xs transition-all"
-        style={{
-          background: mode === 'single' ? 'var(--brass)' : 'transparent',
-          color: mode === 'single' ? 'var(--ink-deepest)' : 'var(--text-tertiary)',
-        }}
-      >
-        Single
-      </button>
-      <button
-        onClick={() => onChange('range')}
-        className="px-3 py-1 rounded-full text-xs transition-all"
-        style={{
-          background: mode === 'range' ? 'var(--brass)' : 'transparent',
-          color: mode === 'range' ? 'var(--ink-deepest)' : 'var(--text-tertiary)',
-        }}
-      >
-        Range
-      </button>
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className="px-3 py-1 rounded-full text-xs transition-all"
+          style={{
+            background: mode === option.value ? 'var(--brass)' : 'transparent',
+            color: mode === option.value ? 'var(--ink-deepest)' : 'var(--text-tertiary)',
+          }}
+        >
+          {option.label}
+        </button>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,35 @@
+interface ProbabilityModeInputProps {
+  enabled: boolean;
+  supportedModels: string[]; // Selected models whose provider reports logprobs
+  onChange: (enabled: boolean) => void;
+}
+
+export function ProbabilityModeInput({
+  enabled,
+  supportedModels,
+  onChange,
+}: ProbabilityModeInputProps) {
+  const unavailable = supportedModels.length === 0;
+
+  return (
+    <div className="space-y-2">
+      <label
+        className="flex items-center gap-3 cursor-pointer"
+        style={{ opacity: unavailable ? 0.5 : 1 }}
+      >
+        <input
+          type="checkbox"
+          checked={enabled && !unavailable}
+          disabled={unavailable}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+        <span className="obs-etched">Exact Distribution</span>
+      </label>
+      <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+        {unavailable
+          ? 'None of the selected models report token probabilities'
+          : `One extra call per config reads the first-token distribution for ${supportedModels.length} selected model${supportedModels.length === 1 ? '' : 's'}, to compare against the samples`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import type { PromptTemplate } from '../../../lib/types';
+import { DEFAULT_PROMPT, STIMULUS_PLACEHOLDER, hasStimulusPlaceholder } from '../../../lib/prompts';
+
+interface PromptSelectorProps {
+  templates: PromptTemplate[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+}
+
+type Draft = Pick<PromptTemplate, 'name' | 'systemPrompt' | 'userPrompt'>;
+
+const EMPTY_DRAFT: Draft = { name: '', systemPrompt: '', userPrompt: STIMULUS_PLACEHOLDER };
+
+export function PromptSelector({
+  templates,
+  selectedIds,
+  onChange,
+  onSave,
+  onDelete,
+}: PromptSelectorProps) {
+  // Null while the new-template form is closed
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  // At least one variant always stays selected
+  const toggle = (id: string) => {
+    if (!selectedIds.includes(id)) {
+      onChange([...selectedIds, id]);
+    } else if (selectedIds.length > 1) {
+      onChange(selectedIds.filter(selected => selected !== id));
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const template: PromptTemplate = {
+      id: `prompt-${crypto.randomUUID()}`,
+      name: draft.name.trim(),
+      systemPrompt: draft.systemPrompt.trim(),
+      userPrompt: draft.userPrompt.trim(),
+      isBuiltIn: false,
+    };
+    onSave(template);
+    onChange([...selectedIds, template.id]);
+    setDraft(null);
+  };
+
+  const draftError = draft && (
+    !draft.name.trim()
+      ? 'Give the template a name'
+      : !hasStimulusPlaceholder(draft)
+      ? `Include ${STIMULUS_PLACEHOLDER} where the stimulus goes`
+      : null
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between">
+        <label className="obs-etched">Prompt</label>
+        <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          {selectedIds.length > 1
+            ? `${selectedIds.length} variants, each run over every setting`
+            : 'How the model is asked for its word'}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {templates.map(template => (
+          <div key={template.id} className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={selectedIds.includes(template.id)}
+              onChange={() => toggle(template.id)}
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                {template.name}
+              </p>
+              <p className="text-xs font-mono truncate" style={{ color: 'var(--text-tertiary)' }}>
+                {template.systemPrompt || 'No system prompt'} · {template.userPrompt}
+              </p>
+            </div>
+            {!template.isBuiltIn && (
+              <button
+                onClick={() => {
+                  const remaining = selectedIds.filter(id => id !== template.id);
+                  onChange(remaining.length > 0 ? remaining : [DEFAULT_PROMPT.id]);
+                  onDelete(template.id);
+                }}
+                className="obs-button-ghost text-xs"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {draft ? (
+        <div className="space-y-2 animate-fade-in-up">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Template name"
+            className="obs-input w-full px-3 py-2 text-sm"
+          />
+          <textarea
+            value={draft.systemPrompt}
+            rows={2}
+            onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+            placeholder="System prompt (leave empty to send none)"
+            className="obs-input w-full px-3 py-2 text-sm font-mono resize-none"
+          />
+          <textarea
+            value={draft.userPrompt}
+            rows={2}
+            onChange={(e) => setDraft({ ...draft, userPrompt: e.target.value })}
+            placeholder={`User message, e.g. Finish this: ${STIMULUS_PLACEHOLDER}`}
+            className="obs-input w-full px-3 py-2 text-sm font-mono resize-none"
+          />
+          <div className="flex items-center gap-4">
+            <button
+              onClick={handleSave}
+              disabled={draftError !== null}
+              className="obs-button-ghost text-xs disabled:opacity-50"
+            >
+              Save Template
+            </button>
+            <button onClick={() => setDraft(null)} className="obs-button-ghost text-xs">
+              Cancel
+            </button>
+            {draftError && (
+              <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>{draftError}</span>
+            )}
+          </div>
+        </div>
+      ) : (
+        <button onClick={() => setDraft(EMPTY_DRAFT)} className="obs-button-ghost text-xs">
+          New Template
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,22 @@
-import { useState, useRef, useCallback } from 'react';
-import type { ExperimentResults, WordFrequency } from '../../../lib/types';
+import { useState, useRef, useCallback, useMemo } from 'react';
+import type {
+  ExperimentResults,
+  WordFrequency,
+  FailureKind,
+  Sample,
+  SampleFailure,
+  NormalizationPipeline,
+  AnalyticDistribution,
+  PromptTemplate,
+  ContextVariant,
+  ResultCell,
+  ResultCube,
+  EntropyEstimate,
+} from '../../../lib/types';
+import { DEFAULT_NORMALIZATION, renormalizeSamples } from '../../../lib/normalize';
+import { BUILT_IN_PROMPTS } from '../../../lib/prompts';
+import { plugInEntropy } from '../../../lib/entropy';
+import { NormalizationInput } from './NormalizationInput';
 import {
   InteractiveWordCloud,
   EntropyCurve,
@@ -21,7 +38,18 @@ const downloadFile = (content: string, filename: string, type: string) => {
   URL.revokeObjectURL(url);
 };
 
-const exportToCSV = (results: ExperimentResults): string => {
+// Samples from before prompt variants were all drawn with the default prompt
+const promptName = (promptId: string, prompts: PromptTemplate[] = []): string =>
+  (prompts.find(p => p.id === promptId) ?? BUILT_IN_PROMPTS.find(p => p.id === promptId))?.name ?? promptId;
+
+const contextName = (contextId: string, contexts: ContextVariant[] = []): string =>
+  contexts.find(c => c.id === contextId)?.name ?? contextId;
+
+const exportToCSV = (
+  results: ExperimentResults,
+  prompts?: PromptTemplate[],
+  contexts?: ContextVariant[]
+): string => {
   const lines: string[] = [];
 
   // Header
@@ -29,12 +57,19 @@ const exportToCSV = (results: ExperimentResults): string => {
   lines.push(`# Total Samples: ${results.totalSamples}`);
   lines.push(`# Unique Words: ${results.uniqueWords}`);
   lines.push(`# Entropy: ${results.entropy.toFixed(4)}`);
+  if (results.entropyEstimate) {
+    const { millerMadow, chaoShen, nsb, interval } = results.entropyEstimate;
+    lines.push(`# Entropy (Miller-Madow): ${millerMadow.toFixed(4)}`);
+    lines.push(`# Entropy (Chao-Shen): ${chaoShen.toFixed(4)} [95% CI ${interval[0].toFixed(4)}, ${interval[1].toFixed(4)}]`);
+    lines.push(`# Entropy (NSB): ${nsb.toFixed(4)}`);
+  }
   lines.push('');
 
   // Top words
-  lines.push('rank,word,count,percentage');
+  lines.push('rank,word,count,percentage,ci_low,ci_high');
   results.topWords.forEach((w, i) => {
-    lines.push(`${i + 1},"${w.word}",${w.count},${w.percentage.toFixed(2)}`);
+    const [low, high] = w.interval?.map(v => v.toFixed(2)) ?? ['', ''];
+    lines.push(`${i + 1},"${w.word}",${w.count},${w.percentage.toFixed(2)},${low},${high}`);
   });
 
   // By model
@@ -62,6 +97,75 @@ const exportToCSV = (results: ExperimentResults): string => {
     });
   }
 
+  // By top-k
+  const topKs = Object.keys(results.byTopK || {});
+  if (topKs.length) {
+    lines.push('');
+    lines.push('# By Top-k');
+    lines.push('top_k,word,count,percentage');
+    Object.entries(results.byTopK || {}).forEach(([topK, words]) => {
+      words.forEach(w => {
+        lines.push(`${topK},"${w.word}",${w.count},${w.percentage.toFixed(2)}`);
+      });
+    });
+  }
+
+  // By (model, temperature, top-k) cell
+  if (results.cube) {
+    lines.push('');
+    lines.push('# By Setting');
+    lines.push('model,temperature,top_k,samples,unique_words,entropy,entropy_chao_shen,ci_low,ci_high,top_word');
+    Object.entries(results.cube).forEach(([modelId, byTemp]) => {
+      Object.entries(byTemp).forEach(([temp, byK]) => {
+        Object.entries(byK).forEach(([topK, cell]) => {
+          const corrected = cell.entropyEstimate
+            ? [cell.entropyEstimate.chaoShen, ...cell.entropyEstimate.interval].map(v => v.toFixed(4))
+            : ['', '', ''];
+          lines.push(`"${modelId}",${temp},${topK},${cell.totalSamples},${cell.uniqueWords},${cell.entropy.toFixed(4)},${corrected.join(',')},"${cell.words[0]?.word ?? ''}"`);
+        });
+      });
+    });
+  }
+
+  // By prompt variant
+  const promptIds = Object.keys(results.byPrompt || {});
+  if (promptIds.length > 1) {
+    lines.push('');
+    lines.push('# By Prompt');
+    lines.push('prompt,word,count,percentage');
+    Object.entries(results.byPrompt || {}).forEach(([promptId, words]) => {
+      words.forEach(w => {
+        lines.push(`"${promptName(promptId, prompts)}","${w.word}",${w.count},${w.percentage.toFixed(2)}`);
+      });
+    });
+  }
+
+  // By stimulus
+  const stimuli = Object.keys(results.byStimulus || {});
+  if (stimuli.length > 1) {
+    lines.push('');
+    lines.push('# By Stimulus');
+    lines.push('stimulus,word,count,percentage');
+    Object.entries(results.byStimulus || {}).forEach(([stimulus, words]) => {
+      words.forEach(w => {
+        lines.push(`"${stimulus.replace(/"/g, '""')}","${w.word}",${w.count},${w.percentage.toFixed(2)}`);
+      });
+    });
+  }
+
+  // By context variant
+  const contextIds = Object.keys(results.byContext || {});
+  if (contextIds.length > 1) {
+    lines.push('');
+    lines.push('# By Context');
+    lines.push('context,word,count,percentage');
+    Object.entries(results.byContext || {}).forEach(([contextId, words]) => {
+      words.forEach(w => {
+        lines.push(`"${contextName(contextId, contexts).replace(/"/g, '""')}","${w.word}",${w.count},${w.percentage.toFixed(2)}`);
+      });
+    });
+  }
+
   return lines.join('\n');
 };
 
@@ -90,11 +194,17 @@ const exportToPNG = async (element: HTMLElement, filename: string) => {
 
 interface ResultsViewProps {
   results: ExperimentResults;
+  samples: Sample[];
+  failures: SampleFailure[];
+  normalization?: NormalizationPipeline;
+  prompts?: PromptTemplate[]; // The experiment's prompt variants, for naming them
+  contexts?: ContextVariant[]; // Likewise for its context variants
+  onRenormalize?: (pipeline: NormalizationPipeline) => Promise<void>; // Save results under another pipeline
 }
 
-type ViewMode = 'cloud' | 'table' | 'models' | 'temperature' | 'entropy' | 'heatmap' | 'trajectory' | 'radial';
+type ViewMode = 'cloud' | 'table' | 'models' | 'temperature' | 'settings' | 'prompts' | 'stimuli' | 'contexts' | 'analytic' | 'samples' | 'failures' | 'entropy' | 'heatmap' | 'trajectory' | 'radial';
 
-export function ResultsView({ results }: ResultsViewProps) {
+export function ResultsView({ results, samples, failures, normalization, prompts, contexts, onRenormalize }: ResultsViewProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('cloud');
   const [isExporting, setIsExporting] = useState(false);
   const contentRef = useRef<HTMLDivElement>(null);
@@ -102,9 +212,9 @@ export function ResultsView({ results }: ResultsViewProps) {
   const timestamp = new Date().toISOString().split('T')[0];
 
   const handleExportCSV = useCallback(() => {
-    const csv = exportToCSV(results);
+    const csv = exportToCSV(results, prompts, contexts);
     downloadFile(csv, `oneword-results-${timestamp}.csv`, 'text/csv');
-  }, [results, timestamp]);
+  }, [results, prompts, contexts, timestamp]);
 
   const handleExportJSON = useCallback(() => {
     const json = exportToJSON(results);
@@ -126,6 +236,24 @@ export function ResultsView({ results }: ResultsViewProps) {
     { id: 'table', label: 'Table', group: 'basic' },
     { id: 'models', label: 'Models', group: 'basic' },
     { id: 'temperature', label: 'Temp Grid', group: 'basic' },
+    ...(Object.values(results.cube || {}).some(byTemp =>
+      Object.keys(byTemp).length > 1 || Object.values(byTemp).some(byK => Object.keys(byK).length > 1))
+      ? [{ id: 'settings' as const, label: 'Temp × Top-k', group: 'basic' as const }]
+      : []),
+    ...(Object.keys(results.byPrompt || {}).length > 1
+      ? [{ id: 'prompts' as const, label: 'Prompts', group: 'basic' as const }]
+      : []),
+    ...(Object.keys(results.byStimulus || {}).length > 1
+      ? [{ id: 'stimuli' as const, label: 'Stimuli', group: 'basic' as const }]
+      : []),
+    ...(Object.keys(results.byContext || {}).length > 1
+      ? [{ id: 'contexts' as const, label: 'Contexts', group: 'basic' as const }]
+      : []),
+    ...(results.analytic?.length
+      ? [{ id: 'analytic' as const, label: 'Exact vs Sampled', group: 'basic' as const }]
+      : []),
+    { id: 'samples', label: 'Samples', group: 'basic' },
+    { id: 'failures', label: 'Failures', group: 'basic' },
     { id: 'entropy', label: 'Entropy', group: 'advanced' },
     { id: 'heatmap', label: 'Similarity', group: 'advanced' },
     { id: 'trajectory', label: 'Trajectory', group: 'advanced' },
@@ -147,7 +275,7 @@ export function ResultsView({ results }: ResultsViewProps) {
                   viewMode === mode.id
                     ? 'bg-cyan-500/20 text-cyan-400'
                     : 'text-slate-400 hover:text-white hover:bg-slate-700'
-                } ${i === 4 ? 'ml-2 border-l border-slate-600 pl-3' : ''}`}
+                } ${mode.group === 'advanced' && viewModes[i - 1]?.group === 'basic' ? 'ml-2 border-l border-slate-600 pl-3' : ''}`}
               >
                 {mode.label}
               </button>
@@ -167,8 +295,14 @@ export function ResultsView({ results }: ResultsViewProps) {
           </div>
           <div>
             <span className="text-slate-500">Entropy:</span>{' '}
-            <span className="font-mono text-white">{results.entropy.toFixed(2)} bits</span>
+            <EntropyValue estimate={results.entropyEstimate} plugIn={results.entropy} />
           </div>
+          {(results.failureCount ?? 0) > 0 && (
+            <div>
+              <span className="text-slate-500">Failed calls:</span>{' '}
+              <span className="font-mono text-red-400">{results.failureCount}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -187,6 +321,43 @@ export function ResultsView({ results }: ResultsViewProps) {
         {viewMode === 'temperature' && (
           <TemperatureGradient results={results} />
         )}
+        {viewMode === 'settings' && (
+          <SettingsHeatmap cube={results.cube ?? {}} />
+        )}
+        {viewMode === 'prompts' && (
+          <VariantComparison
+            groups={results.byPrompt || {}}
+            nameOf={(promptId) => promptName(promptId, prompts)}
+          />
+        )}
+        {viewMode === 'contexts' && (
+          <VariantComparison
+            groups={results.byContext || {}}
+            nameOf={(contextId) => contextName(contextId, contexts)}
+          />
+        )}
+        {viewMode === 'stimuli' && (
+          <StimulusComparison results={results} />
+        )}
+        {viewMode === 'analytic' && (
+          <AnalyticOverlay
+            analytic={results.analytic ?? []}
+            samples={samples}
+            prompts={prompts}
+            contexts={contexts}
+          />
+        )}
+        {viewMode === 'samples' && (
+          <SampleExplorer
+            samples={samples}
+            failures={failures}
+            normalization={results.normalization ?? normalization ?? DEFAULT_NORMALIZATION}
+            onRenormalize={onRenormalize}
+          />
+        )}
+        {viewMode === 'failures' && (
+          <FailureBreakdown results={results} />
+        )}
 
         {/* Advanced views */}
         {viewMode === 'entropy' && (
@@ -230,6 +401,29 @@ export function ResultsView({ results }: ResultsViewProps) {
   );
 }
 
+// Chao–Shen with its bootstrap interval; plug-in for results from before estimates were kept
+function EntropyValue({ estimate, plugIn }: { estimate?: EntropyEstimate; plugIn: number }) {
+  if (!estimate) {
+    return <span className="font-mono text-white">{plugIn.toFixed(2)} bits</span>;
+  }
+  return (
+    <span
+      className="font-mono text-white"
+      title={[
+        `Plug-in: ${estimate.plugIn.toFixed(3)}`,
+        `Miller–Madow: ${estimate.millerMadow.toFixed(3)}`,
+        `Chao–Shen: ${estimate.chaoShen.toFixed(3)}`,
+        `NSB: ${estimate.nsb.toFixed(3)}`,
+      ].join('\n')}
+    >
+      {estimate.chaoShen.toFixed(2)} bits{' '}
+      <span className="text-slate-500">
+        ({estimate.interval[0].toFixed(2)}–{estimate.interval[1].toFixed(2)})
+      </span>
+    </span>
+  );
+}
+
 function FrequencyTable({ words }: { words: WordFrequency[] }) {
   return (
     <div className="overflow-x-auto">
@@ -251,11 +445,23 @@ function FrequencyTable({ words }: { words: WordFrequency[] }) {
               <td className="py-3 font-mono text-right text-slate-300">{w.count}</td>
               <td className="py-3 font-mono text-right text-slate-300">
                 {w.percentage.toFixed(1)}%
+                {w.interval && (
+                  <span className="block text-xs text-slate-500">
+                    {w.interval[0].toFixed(0)}–{w.interval[1].toFixed(0)}%
+                  </span>
+                )}
               </td>
               <td className="py-3">
-                <div className="h-2 bg-slate-700 rounded-full overflow-hidden w-32">
+                <div className="h-2 bg-slate-700 rounded-full overflow-hidden w-32 relative">
+                  {/* 95% interval behind the point estimate */}
+                  {w.interval && (
+                    <div
+                      className="absolute inset-y-0 bg-cyan-500/30"
+                      style={{ left: `${w.interval[0]}%`, width: `${w.interval[1] - w.interval[0]}%` }}
+                    />
+                  )}
                   <div
-                    className="h-full bg-cyan-500"
+                    className="h-full bg-cyan-500 relative"
                     style={{ width: `${w.percentage}%` }}
                   />
                 </div>
@@ -283,13 +489,21 @@ function ModelComparison({ results }: { results: ExperimentResults }) {
     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
       {modelResults.map((mr) => (
         <div key={mr.modelId} className="bg-slate-900 rounded-lg p-4">
-          <h4 className="font-medium text-white mb-3 truncate">{mr.modelId}</h4>
+          <h4 className="font-medium text-white truncate">{mr.modelId}</h4>
+          <p className="text-xs text-slate-500 mb-3">
+            Entropy <EntropyValue estimate={mr.entropyEstimate} plugIn={plugInEntropy(mr.words.map(w => w.count))} />
+          </p>
           <div className="space-y-1">
             {mr.words.slice(0, 5).map((w, i) => (
               <div key={w.word} className="flex items-center gap-2 text-sm">
                 <span className="text-slate-500 w-4">{i + 1}</span>
                 <span className="font-mono text-cyan-400">{w.word}</span>
-                <span className="text-slate-500 ml-auto">{w.count}</span>
+                <span
+                  className="text-slate-500 ml-auto"
+                  title={w.interval ? `95% interval ${w.interval[0].toFixed(1)}–${w.interval[1].toFixed(1)}%` : undefined}
+                >
+                  {w.count}
+                </span>
               </div>
             ))}
           </div>
@@ -299,6 +513,115 @@ function ModelComparison({ results }: { results: ExperimentResults }) {
   );
 }
 
+// Side-by-side top words for each prompt or context variant
+function VariantComparison({
+  groups,
+  nameOf,
+}: {
+  groups: Record<string, WordFrequency[]>;
+  nameOf: (id: string) => string;
+}) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+      {Object.entries(groups).map(([id, words]) => {
+        const total = words.reduce((sum, w) => sum + w.count, 0);
+        return (
+          <div key={id} className="bg-slate-900 rounded-lg p-4">
+            <h4 className="font-medium text-white truncate">{nameOf(id)}</h4>
+            <p className="text-xs text-slate-500 mb-3">
+              {total} samples, {words.length} unique
+            </p>
+            <div className="space-y-1">
+              {words.slice(0, 5).map((w, i) => (
+                <div key={w.word} className="flex items-center gap-2 text-sm">
+                  <span className="text-slate-500 w-4">{i + 1}</span>
+                  <span className="font-mono text-cyan-400">{w.word}</span>
+                  <span className="text-slate-500 ml-auto">{w.percentage.toFixed(0)}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const STIMULUS_WORD_COLUMNS = 6;
+
+function StimulusComparison({ results }: { results: ExperimentResults }) {
+  const [sortBy, setSortBy] = useState<'listed' | 'entropy'>('listed');
+
+  const rows = Object.entries(results.byStimulus || {}).map(([stimulus, words]) => ({
+    stimulus,
+    words,
+    entropy: plugInEntropy(words.map(w => w.count)),
+  }));
+  if (sortBy === 'entropy') {
+    rows.sort((a, b) => b.entropy - a.entropy);
+  }
+
+  // The words most common overall, so columns line up across stimuli
+  const columns = results.topWords.slice(0, STIMULUS_WORD_COLUMNS).map(w => w.word);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-slate-500">Order:</span>
+        {(['listed', 'entropy'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setSortBy(option)}
+            className={`px-2 py-0.5 rounded ${
+              sortBy === option ? 'bg-cyan-500/20 text-cyan-400' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            {option === 'listed' ? 'As listed' : 'Most diverse'}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500 border-b border-slate-700">
+              <th className="pb-2 font-medium">Stimulus</th>
+              {columns.map(word => (
+                <th key={word} className="pb-2 px-1 font-mono font-normal text-center">{word}</th>
+              ))}
+              <th className="pb-2 px-1 font-medium">Top word</th>
+              <th className="pb-2 font-medium text-right">Entropy</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ stimulus, words, entropy }) => (
+              <tr key={stimulus} className="border-b border-slate-700/50">
+                <td className="py-2 pr-3 text-slate-300 max-w-xs truncate" title={stimulus}>{stimulus}</td>
+                {columns.map(word => {
+                  const percentage = words.find(w => w.word === word)?.percentage ?? 0;
+                  return (
+                    <td key={word} className="py-1 px-1">
+                      <div
+                        className="h-7 rounded flex items-center justify-center text-xs font-mono text-white/80"
+                        style={{ backgroundColor: `rgba(6, 182, 212, ${percentage / 100})` }}
+                        title={`${word}: ${percentage.toFixed(1)}%`}
+                      >
+                        {percentage > 0 ? `${percentage.toFixed(0)}%` : ''}
+                      </div>
+                    </td>
+                  );
+                })}
+                <td className="py-2 px-1 font-mono text-cyan-400">{words[0]?.word}</td>
+                <td className="py-2 font-mono text-right text-amber-400">{entropy.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 function TemperatureGradient({ results }: { results: ExperimentResults }) {
   const temps = Object.keys(results.byTemperature || {}).map(Number).sort();
 
@@ -403,3 +726,450 @@ function TemperatureGradient({ results }: { results: ExperimentResults }) {
     </div>
   );
 }
+
+function SettingsHeatmap({ cube }: { cube: ResultCube }) {
+  const modelIds = Object.keys(cube);
+  const [selectedModel, setSelectedModel] = useState(modelIds[0]);
+  const [metric, setMetric] = useState<'entropy' | 'top-share'>('entropy');
+
+  const byTemp = cube[selectedModel] ?? {};
+  const temps = Object.keys(byTemp).map(Number).sort((a, b) => a - b);
+  const topKs = Array.from(new Set(Object.values(byTemp).flatMap(byK => Object.keys(byK).map(Number))))
+    .sort((a, b) => a - b);
+
+  const entropyOf = (cell: ResultCell) => cell.entropyEstimate?.chaoShen ?? cell.entropy;
+  const value = (cell: ResultCell) =>
+    metric === 'entropy' ? entropyOf(cell) : (cell.words[0]?.percentage ?? 0) / 100;
+  const maxValue = Math.max(
+    ...temps.flatMap(t => Object.values(byTemp[t]).map(value)),
+    0.01
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 flex-wrap text-sm">
+        {modelIds.length > 1 && (
+          <select
+            value={selectedModel}
+            onChange={(e) => setSelectedModel(e.target.value)}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300"
+          >
+            {modelIds.map(modelId => (
+              <option key={modelId} value={modelId}>{modelId}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex items-center gap-2 text-xs">
+          {(['entropy', 'top-share'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setMetric(option)}
+              className={`px-2 py-0.5 rounded ${
+                metric === option ? 'bg-cyan-500/20 text-cyan-400' : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              {option === 'entropy' ? 'Entropy' : 'Top word share'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-slate-500">
+              <th className="pb-2 text-left font-medium">T \ k</th>
+              {topKs.map(k => (
+                <th key={k} className="pb-2 px-1 font-mono font-normal text-center">k={k}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {temps.map(t => (
+              <tr key={t}>
+                <td className="py-1 pr-3 font-mono text-xs text-slate-400">T={t.toFixed(1)}</td>
+                {topKs.map(k => {
+                  const cell = byTemp[t]?.[k];
+                  if (!cell) {
+                    return <td key={k} className="py-1 px-1"><div className="h-12 rounded bg-slate-900" /></td>;
+                  }
+                  const intensity = value(cell) / maxValue;
+                  return (
+                    <td key={k} className="py-1 px-1">
+                      <div
+                        className="h-12 rounded flex flex-col items-center justify-center"
+                        style={{ backgroundColor: `rgba(245, 158, 11, ${0.1 + intensity * 0.7})` }}
+                        title={`T=${t.toFixed(1)}, k=${k}: ${cell.totalSamples} samples, ${cell.uniqueWords} unique, ${entropyOf(cell).toFixed(2)} bits${
+                          cell.entropyEstimate ? ` (${cell.entropyEstimate.interval.map(v => v.toFixed(2)).join('–')})` : ''
+                        }`}
+                      >
+                        <span className="font-mono text-xs text-white truncate max-w-full px-1">{cell.words[0]?.word}</span>
+                        <span className="font-mono text-[10px] text-white/70">
+                          {metric === 'entropy'
+                            ? `${entropyOf(cell).toFixed(2)} bits`
+                            : `${(cell.words[0]?.percentage ?? 0).toFixed(0)}%`}
+                        </span>
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-slate-500 text-center">
+        Each cell shows its most common word; brighter cells have {metric === 'entropy' ? 'more diverse outputs' : 'a more dominant top word'}
+      </p>
+    </div>
+  );
+}
+
+function AnalyticOverlay({
+  analytic,
+  samples,
+  prompts,
+  contexts,
+}: {
+  analytic: AnalyticDistribution[];
+  samples: Sample[];
+  prompts?: PromptTemplate[];
+  contexts?: ContextVariant[];
+}) {
+  const [selected, setSelected] = useState(0);
+  const distribution = analytic[selected] ?? analytic[0];
+
+  if (!distribution) {
+    return (
+      <p className="text-slate-500 text-center py-8">
+        No exact distributions were recorded
+      </p>
+    );
+  }
+
+  // Sampled frequencies for the same (model, config) cell
+  const cellSamples = samples.filter(s =>
+    s.modelId === distribution.modelId &&
+    s.temperature === distribution.temperature &&
+    s.topK === distribution.topK &&
+    s.promptId === distribution.promptId &&
+    s.stimulus === distribution.stimulus &&
+    s.contextId === distribution.contextId
+  );
+  const sampledCounts = new Map<string, number>();
+  cellSamples.forEach(s => sampledCounts.set(s.word, (sampledCounts.get(s.word) || 0) + 1));
+
+  const exact = new Map(distribution.words.map(w => [w.word, w.probability]));
+  const rows = Array.from(new Set([...exact.keys(), ...sampledCounts.keys()]))
+    .map(word => ({
+      word,
+      exact: exact.get(word) ?? 0,
+      sampled: cellSamples.length > 0 ? (sampledCounts.get(word) ?? 0) / cellSamples.length : 0,
+    }))
+    .sort((a, b) => Math.max(b.exact, b.sampled) - Math.max(a.exact, a.sampled))
+    .slice(0, 15);
+  const maxProbability = Math.max(...rows.map(r => Math.max(r.exact, r.sampled)), 0.01);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 flex-wrap text-sm">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(Number(e.target.value))}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300"
+        >
+          {analytic.map((d, i) => (
+            <option key={`${d.modelId}-${d.temperature}-${d.topK}-${d.promptId}-${d.stimulus}-${d.contextId}`} value={i}>
+              {d.modelId} · T={d.temperature.toFixed(1)} · k={d.topK}
+              {(prompts?.length ?? 0) > 1 && d.promptId ? ` · ${promptName(d.promptId, prompts)}` : ''}
+              {d.stimulus ? ` · ${d.stimulus}` : ''}
+              {d.contextId ? ` · ${contextName(d.contextId, contexts)}` : ''}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-slate-500">
+          {cellSamples.length} samples · top tokens cover {(distribution.coverage * 100).toFixed(0)}% of first-token mass
+        </span>
+        <span className="ml-auto flex items-center gap-3 text-xs text-slate-400">
+          <span className="flex items-center gap-1"><span className="w-3 h-2 bg-amber-400 rounded-sm" /> Exact</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-2 bg-cyan-500 rounded-sm" /> Sampled</span>
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {rows.map(row => (
+          <div key={row.word} className="flex items-center gap-3">
+            <div className="w-28 font-mono text-sm text-slate-300 truncate" title={row.word}>{row.word}</div>
+            <div className="flex-1 space-y-0.5">
+              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-amber-400" style={{ width: `${(row.exact / maxProbability) * 100}%` }} />
+              </div>
+              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-cyan-500" style={{ width: `${(row.sampled / maxProbability) * 100}%` }} />
+              </div>
+            </div>
+            <div className="w-28 text-right font-mono text-xs text-slate-400">
+              {(row.exact * 100).toFixed(1)}% / {(row.sampled * 100).toFixed(1)}%
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500 text-center">
+        Exact values come from the first token only, so words split across several tokens are approximated
+      </p>
+    </div>
+  );
+}
+
+const FAILURE_LABELS: Record<FailureKind, string> = {
+  'rate-limit': 'Rate limit',
+  auth: 'Auth',
+  timeout: 'Timeout',
+  network: 'Network',
+  'content-refusal': 'Refusal',
+  parse: 'Parse',
+  server: 'Server',
+  unknown: 'Other',
+};
+
+function FailureBreakdown({ results }: { results: ExperimentResults }) {
+  const byModel = Object.entries(results.failuresByModel || {});
+
+  if (byModel.length === 0) {
+    return (
+      <p className="text-slate-500 text-center py-8">
+        No failed calls in this experiment
+      </p>
+    );
+  }
+
+  // Only show columns for causes that actually occurred
+  const kinds = (Object.keys(FAILURE_LABELS) as FailureKind[]).filter(kind =>
+    byModel.some(([, counts]) => (counts[kind] || 0) > 0)
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-sm text-slate-500 border-b border-slate-700">
+            <th className="pb-3 font-medium">Model</th>
+            {kinds.map(kind => (
+              <th key={kind} className="pb-3 font-medium text-right">{FAILURE_LABELS[kind]}</th>
+            ))}
+            <th className="pb-3 font-medium text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {byModel.map(([modelId, counts]) => {
+            const total = Object.values(counts).reduce((sum, n) => sum + (n || 0), 0);
+            return (
+              <tr key={modelId} className="border-b border-slate-700/50">
+                <td className="py-3 font-mono text-white truncate">{modelId}</td>
+                {kinds.map(kind => (
+                  <td key={kind} className="py-3 font-mono text-right text-slate-300">
+                    {counts[kind] || 0}
+                  </td>
+                ))}
+                <td className="py-3 font-mono text-right text-red-400">{total}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface RawVariant {
+  rawText: string;
+  count: number;
+  finishReasons: string[];
+  modelIds: string[];
+}
+
+const groupRawVariants = (samples: Sample[]): RawVariant[] => {
+  const variants = new Map<string, { count: number; finishReasons: Set<string>; modelIds: Set<string> }>();
+
+  samples.forEach(sample => {
+    const rawText = sample.rawText ?? '';
+    const variant = variants.get(rawText) ?? { count: 0, finishReasons: new Set(), modelIds: new Set() };
+    variant.count++;
+    if (sample.finishReason) variant.finishReasons.add(sample.finishReason);
+    variant.modelIds.add(sample.modelId);
+    variants.set(rawText, variant);
+  });
+
+  return Array.from(variants.entries())
+    .map(([rawText, variant]) => ({
+      rawText,
+      count: variant.count,
+      finishReasons: Array.from(variant.finishReasons),
+      modelIds: Array.from(variant.modelIds),
+    }))
+    .sort((a, b) => b.count - a.count);
+};
+
+// Show whitespace and quotes exactly as the model sent them
+const formatRaw = (rawText: string): string => JSON.stringify(rawText);
+
+function SampleExplorer({
+  samples,
+  failures,
+  normalization,
+  onRenormalize,
+}: {
+  samples: Sample[];
+  failures: SampleFailure[];
+  normalization: NormalizationPipeline;
+  onRenormalize?: (pipeline: NormalizationPipeline) => Promise<void>;
+}) {
+  const [selectedWord, setSelectedWord] = useState<string | null>(null);
+  const [changedOnly, setChangedOnly] = useState(false);
+  // Regroup the stored raw text under a different pipeline without rerunning
+  const [pipeline, setPipeline] = useState(normalization);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!onRenormalize) return;
+    setIsSaving(true);
+    try {
+      await onRenormalize(pipeline);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const recorded = useMemo(
+    () => renormalizeSamples(samples.filter(s => s.rawText !== undefined), pipeline),
+    [samples, pipeline]
+  );
+
+  const words = useMemo(() => {
+    const byWord = new Map<string, Sample[]>();
+    recorded.forEach(sample => {
+      const wordSamples = byWord.get(sample.word) ?? [];
+      wordSamples.push(sample);
+      byWord.set(sample.word, wordSamples);
+    });
+
+    return Array.from(byWord.entries())
+      .map(([word, wordSamples]) => ({
+        word,
+        count: wordSamples.length,
+        variants: groupRawVariants(wordSamples),
+      }))
+      .filter(entry => !changedOnly || entry.variants.some(v => v.rawText !== entry.word))
+      .sort((a, b) => b.count - a.count);
+  }, [recorded, changedOnly]);
+
+  const unparsed = useMemo(
+    () => failures.filter(f => f.rawText !== undefined),
+    [failures]
+  );
+
+  if (recorded.length === 0 && unparsed.length === 0) {
+    return (
+      <p className="text-slate-500 text-center py-8">
+        Raw responses were not recorded for this experiment
+      </p>
+    );
+  }
+
+  const selected = words.find(w => w.word === selectedWord) ?? words[0];
+
+  return (
+    <div className="space-y-6">
+      <NormalizationInput pipeline={pipeline} onChange={setPipeline} />
+      {onRenormalize && JSON.stringify(pipeline) !== JSON.stringify(normalization) && (
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="text-sm text-cyan-400 hover:text-cyan-300 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Regenerating...' : 'Regenerate Results With This Pipeline'}
+        </button>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {/* Normalized words */}
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={changedOnly}
+              onChange={(e) => setChangedOnly(e.target.checked)}
+            />
+            Only words changed by normalization
+          </label>
+          <div className="max-h-96 overflow-y-auto space-y-1">
+            {words.map(entry => (
+              <button
+                key={entry.word}
+                onClick={() => setSelectedWord(entry.word)}
+                className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm text-left transition-colors ${
+                  selected?.word === entry.word
+                    ? 'bg-cyan-500/20 text-cyan-400'
+                    : 'text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                <span className="font-mono truncate">{entry.word}</span>
+                <span className="ml-auto text-xs text-slate-500">
+                  {entry.variants.length} raw · {entry.count}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Raw responses behind the selected word */}
+        <div className="md:col-span-2 overflow-x-auto">
+          {selected ? (
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-sm text-slate-500 border-b border-slate-700">
+                  <th className="pb-3 font-medium">Raw response</th>
+                  <th className="pb-3 font-medium">Finish</th>
+                  <th className="pb-3 font-medium">Models</th>
+                  <th className="pb-3 font-medium text-right">Count</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.variants.map(variant => (
+                  <tr key={variant.rawText} className="border-b border-slate-700/50 align-top">
+                    <td className="py-3 font-mono text-white break-all">{formatRaw(variant.rawText)}</td>
+                    <td className="py-3 font-mono text-xs text-slate-400">
+                      {variant.finishReasons.join(', ') || '—'}
+                    </td>
+                    <td className="py-3 text-xs text-slate-400">{variant.modelIds.join(', ')}</td>
+                    <td className="py-3 font-mono text-right text-slate-300">{variant.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-slate-500 text-center py-8">
+              No responses were changed by normalization
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Responses that never became a word */}
+      {unparsed.length > 0 && (
+        <div className="pt-4 border-t border-slate-700 space-y-2">
+          <h4 className="text-sm font-medium text-slate-400">Refused or unparseable</h4>
+          {unparsed.map(failure => (
+            <div key={failure.id} className="flex items-baseline gap-3 text-sm">
+              <span className="text-xs text-red-400 w-16 shrink-0">{FAILURE_LABELS[failure.kind]}</span>
+              <span className="font-mono text-slate-300 break-all">{formatRaw(failure.rawText ?? '')}</span>
+              <span className="ml-auto text-xs text-slate-500 shrink-0">{failure.modelId}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { Experiment } from '../../../lib/types';
+
+interface ResumePromptProps {
+  experiments: Experiment[];
+  onResume: (experiment: Experiment) => void;
+  onDiscard: (experiment: Experiment) => void;
+}
+
+export function ResumePrompt({ experiments, onResume, onDiscard }: ResumePromptProps) {
+  if (experiments.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <p className="obs-etched">Interrupted Observations</p>
+      {experiments.map((experiment) => (
+        <div key={experiment.id} className="obs-card px-4 py-3 flex items-center gap-4">
+          <div className="flex-1 min-w-0">
+            <p
+              className="font-display italic truncate"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              "{experiment.stimulus}"
+            </p>
+            <p className="text-sm font-mono" style={{ color: 'var(--text-tertiary)' }}>
+              {experiment.totalCalls.toLocaleString()} calls ·{' '}
+              {experiment.selectedModels.length} model{experiment.selectedModels.length === 1 ? '' : 's'} ·{' '}
+              started {new Date(experiment.startedAt ?? experiment.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <button
+            onClick={() => onResume(experiment)}
+            className="obs-button-secondary px-4 py-1.5 rounded text-sm"
+          >
+            Resume
+          </button>
+          <button
+            onClick={() => onDiscard(experiment)}
+            className="obs-button-ghost text-sm"
+          >
+            Discard
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,11 +1,32 @@
 import { useState } from 'react';
-import type { Stimulus } from '../../../lib/types';
+import type { ExperimentBuilderState, Stimulus } from '../../../lib/types';
+import { MAX_STIMULI, templateSlots } from '../../../lib/stimuli';
+
+type StimulusMode = ExperimentBuilderState['stimulusMode'];
 
 interface StimulusInputProps {
-  value: string;
+  mode: StimulusMode;
+  value: string; // The stimulus, or the template in template mode
+  list: string[];
+  templateValues: Record<string, string[]>;
+  expanded: string[]; // What the current input runs over
+  onModeChange: (mode: StimulusMode) => void;
   onChange: (value: string) => void;
+  onListChange: (list: string[]) => void;
+  onTemplateValuesChange: (values: Record<string, string[]>) => void;
 }
 
+const MODES: ReadonlyArray<{ value: StimulusMode; label: string }> = [
+  { value: 'single', label: 'Single' },
+  { value: 'list', label: 'List' },
+  { value: 'template', label: 'Template' },
+];
+
+const PREVIEW_COUNT = 3;
+
+const splitValues = (text: string): string[] =>
+  text.split(',').map(v => v.trim()).filter(Boolean);
+
 const STIMULI: Stimulus[] = [
   { id: 'existential-1', text: 'the word that scares me most in the world is', category: 'existential', isBuiltIn: true },
   { id: 'existential-2', text: 'when I think about death, the first word that comes to mind is', category: 'existential', isBuiltIn: true },
@@ -17,44 +38,150 @@ const STIMULI: Stimulus[] = [
   { id: 'future-2', text: 'the first word aliens would teach humans is', category: 'future', isBuiltIn: true },
 ];
 
-export function StimulusInput({ value, onChange }: StimulusInputProps) {
+export function StimulusInput({
+  mode,
+  value,
+  list,
+  templateValues,
+  expanded,
+  onModeChange,
+  onChange,
+  onListChange,
+  onTemplateValuesChange,
+}: StimulusInputProps) {
   const [showLibrary, setShowLibrary] = useState(false);
+  // Keep the raw text so half-typed lines and values aren't discarded while editing
+  const [listText, setListText] = useState(() => list.join('\n'));
+  const [valueText, setValueText] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(templateValues).map(([slot, values]) => [slot, values.join(', ')]))
+  );
+
+  const slots = mode === 'template' ? templateSlots(value) : [];
+
+  const pickFromLibrary = (text: string) => {
+    if (mode === 'list') {
+      const next = [...list, text];
+      setListText(next.join('\n'));
+      onListChange(next);
+    } else {
+      onChange(text);
+    }
+    setShowLibrary(false);
+  };
+
+  const updateSlot = (slot: string, text: string) => {
+    setValueText({ ...valueText, [slot]: text });
+    onTemplateValuesChange({ ...templateValues, [slot]: splitValues(text) });
+  };
 
   return (
     <div className="space-y-4">
       {/* Label */}
       <div className="flex items-center justify-between">
         <label className="obs-etched">Stimulus</label>
-        <button
-          onClick={() => setShowLibrary(!showLibrary)}
-          className="obs-button-ghost text-sm"
-        >
-          {showLibrary ? 'Close' : 'Library'}
-        </button>
+        <div className="flex items-center gap-2">
+          {MODES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onModeChange(option.value)}
+              className="px-3 py-1 rounded-full text-xs transition-all"
+              style={{
+                background: mode === option.value ? 'var(--brass)' : 'var(--ink-deepest)',
+                color: mode === option.value ? 'var(--ink-deepest)' : 'var(--text-tertiary)',
+                border: '1px solid var(--ink-border)',
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+          <button
+            onClick={() => setShowLibrary(!showLibrary)}
+            className="obs-button-ghost text-sm ml-2"
+          >
+            {showLibrary ? 'Close' : 'Library'}
+          </button>
+        </div>
       </div>
 
       {/* Input - the focal point */}
-      <div className="relative">
+      {mode === 'list' ? (
         <textarea
-          value={value}
-          onChange={(e) => onChange(e.target.value)}
-          placeholder="the word that scares me most in the world is"
-          rows={3}
-          className="obs-input w-full px-4 py-3 rounded text-base resize-none"
-          style={{
-            fontStyle: value ? 'normal' : 'italic',
+          value={listText}
+          onChange={(e) => {
+            setListText(e.target.value);
+            onListChange(e.target.value.split('\n'));
           }}
+          placeholder={'the word that scares me most in the world is\nthe word that comforts me most in the world is'}
+          rows={5}
+          className="obs-input w-full px-4 py-3 rounded text-base resize-y"
         />
-        {/* Cursor indicator when empty */}
-        {!value && (
-          <span
-            className="absolute top-3 left-4 pointer-events-none animate-cursor font-mono"
-            style={{ color: 'var(--brass)' }}
+      ) : (
+        <div className="relative">
+          <textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={mode === 'template'
+              ? 'the {adjective} word for {noun} is'
+              : 'the word that scares me most in the world is'}
+            rows={3}
+            className="obs-input w-full px-4 py-3 rounded text-base resize-none"
+            style={{
+              fontStyle: value ? 'normal' : 'italic',
+            }}
+          />
+          {/* Cursor indicator when empty */}
+          {!value && (
+            <span
+              className="absolute top-3 left-4 pointer-events-none animate-cursor font-mono"
+              style={{ color: 'var(--brass)' }}
+            >
+              ▌
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Values for each {slot} in the template */}
+      {slots.length > 0 && (
+        <div className="space-y-2">
+          {slots.map(slot => (
+            <div key={slot} className="flex items-center gap-3">
+              <span className="text-sm font-mono w-28 truncate" style={{ color: 'var(--brass)' }}>
+                {`{${slot}}`}
+              </span>
+              <input
+                value={valueText[slot] ?? ''}
+                onChange={(e) => updateSlot(slot, e.target.value)}
+                placeholder="comma, separated, values"
+                className="obs-input flex-1 px-3 py-2 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* What the input expands to */}
+      {mode !== 'single' && (
+        <div className="space-y-1">
+          <p
+            className="text-xs"
+            style={{ color: expanded.length > MAX_STIMULI ? 'var(--error)' : 'var(--text-tertiary)' }}
           >
-            ▌
-          </span>
-        )}
-      </div>
+            {expanded.length} stimul{expanded.length === 1 ? 'us' : 'i'}, each run over every model and setting
+            {expanded.length > MAX_STIMULI && ` (at most ${MAX_STIMULI})`}
+          </p>
+          {mode === 'template' && expanded.slice(0, PREVIEW_COUNT).map(stimulus => (
+            <p key={stimulus} className="text-xs font-display italic truncate" style={{ color: 'var(--text-secondary)' }}>
+              {stimulus}
+            </p>
+          ))}
+          {mode === 'template' && slots.length === 0 && (
+            <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+              Mark the parts to vary with braces: the {'{adjective}'} word for {'{noun}'} is
+            </p>
+          )}
+        </div>
+      )}
 
       {/* System prompt hint */}
       <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
@@ -71,10 +198,7 @@ export function StimulusInput({ value, onChange }: StimulusInputProps) {
             {STIMULI.map((s, i) => (
               <button
                 key={s.id}
-                onClick={() => {
-                  onChange(s.text);
-                  setShowLibrary(false);
-                }}
+                onClick={() => pickFromLibrary(s.text)}
                 className="w-full text-left px-4 py-3 rounded transition-all hover:translate-x-1"
                 style={{
                   background: 'var(--ink-deepest)',
@@ -6,6 +6,8 @@
 
 import { useState, useEffect, useMemo, useRef } from 'react';
 import type { ExperimentResults, WordFrequency, RunProgress } from '../../../lib/types';
+import { experimentRunner } from '../../../lib/runner-client';
+import { plugInEntropy } from '../../../lib/entropy';
 
 // ==================== Interactive Word Cloud ====================
 
@@ -106,22 +108,15 @@ export function EntropyCurve({ results }: EntropyCurveProps) {
     );
   }
 
-  // Calculate entropy for each temperature
+  // Bias-corrected entropy with its bootstrap interval; plug-in for older results
   const entropyData = temps.map(temp => {
     const words = results.byTemperature?.[temp] || [];
-    const totalCount = words.reduce((sum, w) => sum + w.count, 0);
-
-    if (totalCount === 0) return { temp, entropy: 0, uniqueWords: 0 };
-
-    const entropy = -words.reduce((sum, w) => {
-      const p = w.count / totalCount;
-      return sum + (p > 0 ? p * Math.log2(p) : 0);
-    }, 0);
-
-    return { temp, entropy, uniqueWords: words.length };
+    const estimate = results.entropyByTemperature?.[temp];
+    const entropy = estimate?.chaoShen ?? plugInEntropy(words.map(w => w.count));
+    return { temp, entropy, interval: estimate?.interval ?? [entropy, entropy], uniqueWords: words.length };
   });
 
-  const maxEntropy = Math.max(...entropyData.map(d => d.entropy), 1);
+  const maxEntropy = Math.max(...entropyData.map(d => d.interval[1]), 1);
   const maxUnique = Math.max(...entropyData.map(d => d.uniqueWords), 1);
 
   // SVG dimensions
@@ -136,6 +131,16 @@ export function EntropyCurve({ results }: EntropyCurveProps) {
     return `${i === 0 ? 'M' : 'L'} ${x} ${y}`;
   }).join(' ');
 
+  // Upper bounds left to right, then lower bounds back
+  const bandPath = [
+    ...entropyData.map((d, i) => ({ i, value: d.interval[1] })),
+    ...entropyData.map((d, i) => ({ i, value: d.interval[0] })).reverse(),
+  ].map(({ i, value }, j) => {
+    const x = padding + (i / (entropyData.length - 1)) * (width - 2 * padding);
+    const y = height - padding - (value / maxEntropy) * (height - 2 * padding);
+    return `${j === 0 ? 'M' : 'L'} ${x} ${y}`;
+  }).join(' ') + ' Z';
+
   const uniquePath = entropyData.map((d, i) => {
     const x = padding + (i / (entropyData.length - 1)) * (width - 2 * padding);
     const y = height - padding - (d.uniqueWords / maxUnique) * (height - 2 * padding);
@@ -149,7 +154,7 @@ export function EntropyCurve({ results }: EntropyCurveProps) {
         <div className="flex items-center gap-4 text-xs">
           <span className="flex items-center gap-1">
             <span className="w-3 h-0.5 bg-cyan-400 rounded" />
-            <span className="text-slate-400">Entropy</span>
+            <span className="text-slate-400">Entropy (95% band)</span>
           </span>
           <span className="flex items-center gap-1">
             <span className="w-3 h-0.5 bg-amber-400 rounded" />
@@ -172,6 +177,9 @@ export function EntropyCurve({ results }: EntropyCurveProps) {
           />
         ))}
 
+        {/* 95% interval band */}
+        <path d={bandPath} fill="rgba(34, 211, 238, 0.15)" stroke="none" />
+
         {/* Entropy line */}
         <path
           d={entropyPath}
@@ -206,7 +214,9 @@ export function EntropyCurve({ results }: EntropyCurveProps) {
               fill="#22d3ee"
               className="hover:r-3 transition-all"
             >
-              <title>T={d.temp.toFixed(1)}: {d.entropy.toFixed(2)} bits</title>
+              <title>
+                T={d.temp.toFixed(1)}: {d.entropy.toFixed(2)} bits ({d.interval[0].toFixed(2)}–{d.interval[1].toFixed(2)})
+              </title>
             </circle>
           );
         })}
@@ -342,30 +352,32 @@ export function ModelDivergenceHeatmap({ results }: DivergenceHeatmapProps) {
 // ==================== Live Word Stream ====================
 
 interface LiveWordStreamProps {
+  experimentId: string | null;
   progress: RunProgress | null;
 }
 
-export function LiveWordStream({ progress }: LiveWordStreamProps) {
+export function LiveWordStream({ experimentId, progress }: LiveWordStreamProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [displayedWords, setDisplayedWords] = useState<Array<{
     word: string;
-    id: number;
+    id: string;
     x: number;
-    delay: number;
   }>>([]);
 
+  // Drop each word in as its sample lands
   useEffect(() => {
-    if (!progress?.recentWords) return;
+    if (!experimentId) return;
 
-    const newWords = progress.recentWords.slice(0, 5).map((word, i) => ({
-      word,
-      id: Date.now() + i,
-      x: 10 + Math.random() * 80,
-      delay: i * 0.1,
-    }));
+    return experimentRunner.subscribe(event => {
+      if (event.experimentId !== experimentId || event.type !== 'sample-completed') return;
 
-    setDisplayedWords(prev => [...newWords, ...prev].slice(0, 30));
-  }, [progress?.recentWords.join(',')]);
+      const { sample } = event;
+      setDisplayedWords(prev => [
+        { word: sample.word, id: sample.id, x: 10 + Math.random() * 80 },
+        ...prev,
+      ].slice(0, 30));
+    });
+  }, [experimentId]);
 
   if (!progress) {
     return (
@@ -381,13 +393,12 @@ export function LiveWordStream({ progress }: LiveWordStreamProps) {
       className="h-48 bg-gradient-to-b from-slate-900 to-slate-800 rounded-xl overflow-hidden relative"
     >
       {/* Animated words falling */}
-      {displayedWords.map(({ word, id, x, delay }) => (
+      {displayedWords.map(({ word, id, x }) => (
         <div
           key={id}
           className="absolute font-mono text-cyan-400 animate-fall"
           style={{
             left: `${x}%`,
-            animationDelay: `${delay}s`,
             textShadow: '0 0 10px rgba(34, 211, 238, 0.5)',
           }}
         >
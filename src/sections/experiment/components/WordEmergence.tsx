@@ -1,23 +1,15 @@
 import { useMemo, useEffect, useState } from 'react';
 
 interface WordEmergenceProps {
-  words: string[];
+  counts: Record<string, number>; // Running tallies, kept by the caller
+  recent: string[]; // Newest first
 }
 
-export function WordEmergence({ words }: WordEmergenceProps) {
+export function WordEmergence({ counts, recent }: WordEmergenceProps) {
   const [animatedWords, setAnimatedWords] = useState<Set<string>>(new Set());
 
-  // Calculate word frequencies
   const wordData = useMemo(() => {
-    const counts = new Map<string, number>();
-    words.forEach(word => {
-      const normalized = word.toLowerCase().trim();
-      if (normalized) {
-        counts.set(normalized, (counts.get(normalized) || 0) + 1);
-      }
-    });
-
-    return Array.from(counts.entries())
+    return Object.entries(counts)
       .map(([word, count]) => ({
         word,
         count,
@@ -25,7 +17,7 @@ export function WordEmergence({ words }: WordEmergenceProps) {
       }))
       .sort((a, b) => b.count - a.count)
       .slice(0, 24);
-  }, [words, animatedWords]);
+  }, [counts, animatedWords]);
 
   // Track which words have been animated
   useEffect(() => {
@@ -84,7 +76,7 @@ export function WordEmergence({ words }: WordEmergenceProps) {
       <div className="text-center space-y-2">
         <p className="obs-etched">Recent Discoveries</p>
         <div className="flex flex-wrap justify-center gap-2">
-          {words.slice(0, 8).map((word, i) => (
+          {recent.slice(0, 8).map((word, i) => (
             <span
               key={`${word}-${i}`}
               className="font-mono text-sm px-3 py-1 rounded animate-discover"
@@ -1,7 +1,15 @@
 export { ExperimentSection } from './ExperimentSection';
 export { StimulusInput } from './StimulusInput';
 export { ModelSelector } from './ModelSelector';
+export { KeySelector } from './KeySelector';
+export { PromptSelector } from './PromptSelector';
+export { ContextEditor } from './ContextEditor';
 export { ParameterDials } from './ParameterDials';
 export { ObservationProgress } from './ObservationProgress';
 export { WordEmergence } from './WordEmergence';
 export { ResultsView } from './ResultsView';
+export { ResumePrompt } from './ResumePrompt';
+export { BudgetInput } from './BudgetInput';
+export { NormalizationInput } from './NormalizationInput';
+export { ProbabilityModeInput } from './ProbabilityModeInput';
+export { ExecutionModeInput } from './ExecutionModeInput';
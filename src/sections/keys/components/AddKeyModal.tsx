@@ -6,7 +6,7 @@ interface AddKeyModalProps {
   onClose: () => void;
   providers: Provider[];
   selectedProviderId: string | null;
-  onSubmit: (providerId: string, key: string) => Promise<boolean>;
+  onSubmit: (providerId: string, key: string, name: string) => Promise<boolean>; // Rejects when the key can't be stored, e.g. no vault yet
   onValidate: (providerId: string, key: string) => Promise<KeyValidationResult>;
 }
 
@@ -20,6 +20,7 @@ export function AddKeyModal({
 }: AddKeyModalProps) {
   const [providerId, setProviderId] = useState(selectedProviderId || '');
   const [key, setKey] = useState('');
+  const [name, setName] = useState('');
   const [showKey, setShowKey] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
   const [isValid, setIsValid] = useState<boolean | null>(null);
@@ -34,6 +35,7 @@ export function AddKeyModal({
   useEffect(() => {
     if (!isOpen) {
       setKey('');
+      setName('');
       setShowKey(false);
       setIsValidating(false);
       setIsValid(null);
@@ -54,6 +56,9 @@ export function AddKeyModal({
       setIsValid(result.isValid);
       if (!result.isValid) {
         setError(result.error || 'Invalid API key');
+      } else if (result.error) {
+        // Usable, but the provider couldn't be reached to confirm it
+        setError(result.error);
       }
     } catch (err) {
       setIsValid(false);
@@ -66,11 +71,15 @@ export function AddKeyModal({
   const handleSubmit = async () => {
     if (!providerId || !key.trim() || !isValid) return;
 
-    const success = await onSubmit(providerId, key.trim());
-    if (success) {
-      onClose();
-    } else {
-      setError('Failed to save key');
+    try {
+      const success = await onSubmit(providerId, key.trim(), name.trim() || 'Default');
+      if (success) {
+        onClose();
+      } else {
+        setError('Failed to save key');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save key');
     }
   };
 
@@ -97,7 +106,7 @@ export function AddKeyModal({
               className="font-display text-xl"
               style={{ color: 'var(--text-primary)' }}
             >
-              {selectedProviderId ? 'Update API Key' : 'Add API Key'}
+              Add API Key
             </h2>
             <button
               onClick={onClose}
@@ -163,6 +172,17 @@ export function AddKeyModal({
               </div>
             )}
 
+            {/* Key name, to tell several keys for one provider apart */}
+            <div className="space-y-2">
+              <label className="obs-etched">Name</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Personal, Project, Org..."
+                className="obs-input w-full px-4 py-3"
+              />
+            </div>
+
             {/* Key input */}
             <div className="space-y-2">
               <label className="obs-etched">API Key</label>
@@ -193,13 +213,13 @@ export function AddKeyModal({
             {error && (
               <div
                 className="flex items-center gap-2 text-sm animate-fade-in-up"
-                style={{ color: 'var(--error)' }}
+                style={{ color: isValid ? 'var(--warning)' : 'var(--error)' }}
               >
                 <div className="obs-status-dot error" />
                 {error}
               </div>
             )}
-            {isValid === true && (
+            {isValid === true && !error && (
               <div
                 className="flex items-center gap-2 text-sm animate-fade-in-up"
                 style={{ color: 'var(--success)' }}
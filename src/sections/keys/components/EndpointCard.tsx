@@ -0,0 +1,64 @@
+import type { CustomEndpoint } from '../../../lib/types';
+
+interface EndpointCardProps {
+  endpoint: CustomEndpoint;
+  hasKey: boolean;
+  onEdit: () => void;
+  onRemove: () => void;
+}
+
+export function EndpointCard({ endpoint, hasKey, onEdit, onRemove }: EndpointCardProps) {
+  return (
+    <div className="obs-card p-4 group" style={{ borderColor: 'var(--ink-border)' }}>
+      <div className="relative z-10 flex items-start gap-4">
+        {/* Provider badge */}
+        <div className="obs-provider-badge brass transition-transform group-hover:scale-110">
+          {endpoint.name.charAt(0)}
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-3">
+            <span className="font-medium" style={{ color: 'var(--text-primary)' }}>
+              {endpoint.name}
+            </span>
+            <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+              {endpoint.models.length} models
+            </span>
+          </div>
+
+          <div className="mt-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <code
+                className="text-xs px-2 py-1 rounded truncate"
+                style={{
+                  background: 'var(--ink-deepest)',
+                  color: 'var(--text-secondary)',
+                }}
+              >
+                {endpoint.baseUrl}
+              </code>
+              <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                {hasKey ? 'Key set' : 'No key'}
+              </span>
+            </div>
+
+            <p className="text-xs truncate" style={{ color: 'var(--text-tertiary)' }}>
+              {endpoint.models.join(', ')}
+            </p>
+
+            {/* Actions */}
+            <div className="flex items-center gap-4">
+              <button onClick={onEdit} className="obs-button-ghost text-xs">
+                Edit
+              </button>
+              <button onClick={onRemove} className="obs-button-danger text-xs">
+                Remove
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import type { CustomEndpoint, ModelCapabilities } from '../../../lib/types';
+import { CUSTOM_ENDPOINT_PREFIX, DEFAULT_ENDPOINT_CAPABILITIES } from '../../../lib/providers';
+
+// Mounted only while open, so each opening starts from the endpoint's values
+interface EndpointModalProps {
+  onClose: () => void;
+  endpoint: CustomEndpoint | null; // null when adding
+  // An empty key leaves any stored key in place
+  onSubmit: (endpoint: CustomEndpoint, key: string) => Promise<void>;
+}
+
+type CapabilityFlag = 'topK' | 'topP' | 'logprobs' | 'systemPrompt';
+
+const CAPABILITY_FLAGS: ReadonlyArray<{ flag: CapabilityFlag; label: string }> = [
+  { flag: 'topK', label: 'top_k' },
+  { flag: 'topP', label: 'top_p' },
+  { flag: 'logprobs', label: 'logprobs' },
+  { flag: 'systemPrompt', label: 'System prompt' },
+];
+
+const parseModels = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\n,]/).map(model => model.trim()).filter(Boolean)));
+
+export function EndpointModal({
+  onClose,
+  endpoint,
+  onSubmit,
+}: EndpointModalProps) {
+  const [name, setName] = useState(endpoint?.name ?? '');
+  const [baseUrl, setBaseUrl] = useState(endpoint?.baseUrl ?? '');
+  const [key, setKey] = useState('');
+  const [modelsText, setModelsText] = useState(endpoint?.models.join('\n') ?? '');
+  const [capabilities, setCapabilities] = useState<ModelCapabilities>(
+    endpoint?.capabilities ?? DEFAULT_ENDPOINT_CAPABILITIES
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const models = parseModels(modelsText);
+  const canSubmit = name.trim() && baseUrl.trim() && models.length > 0;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    try {
+      new URL(baseUrl.trim());
+    } catch {
+      setError('Base URL must be a full URL, e.g. http://localhost:8080');
+      return;
+    }
+
+    try {
+      await onSubmit({
+        id: endpoint?.id ?? `${CUSTOM_ENDPOINT_PREFIX}${crypto.randomUUID().slice(0, 8)}`,
+        name: name.trim(),
+        baseUrl: baseUrl.trim(),
+        models,
+        capabilities,
+      }, key.trim());
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save endpoint');
+    }
+  };
+
+  const toggleFlag = (flag: CapabilityFlag) => {
+    setCapabilities({ ...capabilities, [flag]: !capabilities[flag] });
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 obs-backdrop z-50 animate-fade-in-up"
+        style={{ animationDuration: '0.2s' }}
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div
+          className="obs-modal w-full max-w-md p-6 animate-scale-in max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2
+              className="font-display text-xl"
+              style={{ color: 'var(--text-primary)' }}
+            >
+              {endpoint ? 'Edit Endpoint' : 'Add Endpoint'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-full flex items-center justify-center transition-all hover:scale-110"
+              style={{
+                background: 'var(--ink-deepest)',
+                color: 'var(--text-tertiary)',
+              }}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <label className="obs-etched">Name</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Local llama.cpp"
+                className="obs-input w-full px-4 py-3"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="obs-etched">Base URL</label>
+              <input
+                value={baseUrl}
+                onChange={(e) => {
+                  setBaseUrl(e.target.value);
+                  setError(null);
+                }}
+                placeholder="http://localhost:8080"
+                className="obs-input w-full px-4 py-3 font-mono text-sm"
+              />
+              <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                Must serve /v1/chat/completions and allow browser (CORS) requests
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="obs-etched">API Key (optional)</label>
+              <input
+                type="password"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                placeholder={endpoint ? 'Leave empty to keep the current key' : 'Leave empty if the server needs none'}
+                className="obs-input w-full px-4 py-3"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="obs-etched">Models</label>
+              <textarea
+                value={modelsText}
+                onChange={(e) => setModelsText(e.target.value)}
+                rows={3}
+                placeholder={'llama3.1:8b\nqwen2.5:7b'}
+                className="obs-input w-full px-4 py-3 font-mono text-sm"
+              />
+            </div>
+
+            {/* Parameter mapping */}
+            <div className="space-y-3">
+              <label className="obs-etched">Supported Parameters</label>
+              <div className="flex flex-wrap gap-2">
+                {CAPABILITY_FLAGS.map(({ flag, label }) => (
+                  <button
+                    key={flag}
+                    onClick={() => toggleFlag(flag)}
+                    className="px-3 py-1 rounded-full text-xs transition-all"
+                    style={{
+                      background: capabilities[flag] ? 'var(--brass)' : 'var(--ink-deepest)',
+                      color: capabilities[flag] ? 'var(--ink-deepest)' : 'var(--text-tertiary)',
+                      border: '1px solid var(--ink-border)',
+                    }}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-3 text-sm">
+                <span style={{ color: 'var(--text-secondary)' }}>Max temperature</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={capabilities.temperature?.max ?? ''}
+                  placeholder="Fixed"
+                  onChange={(e) => {
+                    const max = e.target.value === '' ? null : Number(e.target.value);
+                    setCapabilities({
+                      ...capabilities,
+                      temperature: max === null || !Number.isFinite(max) ? null : { min: 0, max },
+                    });
+                  }}
+                  className="obs-input w-24 px-3 py-1.5 font-mono text-sm"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div
+                className="flex items-center gap-2 text-sm animate-fade-in-up"
+                style={{ color: 'var(--error)' }}
+              >
+                <div className="obs-status-dot error" />
+                {error}
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex items-center gap-3 pt-2">
+              <button
+                onClick={onClose}
+                className="obs-button-secondary flex-1 py-3"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={!canSubmit}
+                className="obs-button-primary flex-1 py-3 disabled:opacity-50"
+              >
+                Save Endpoint
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
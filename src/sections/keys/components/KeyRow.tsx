@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import type { ConfiguredKey } from '../../../lib/types';
+
+interface KeyRowProps {
+  configuredKey: ConfiguredKey;
+  canSetDefault: boolean; // Only meaningful when the provider has other keys
+  onSetDefault: () => void;
+  onRemove: () => void;
+  onValidate: () => Promise<boolean>;
+  lastValidatedAt?: number; // timestamp of last validation
+}
+
+const VALIDATION_COOLDOWN = 30000; // 30 seconds
+
+export function KeyRow({
+  configuredKey,
+  canSetDefault,
+  onSetDefault,
+  onRemove,
+  onValidate,
+  lastValidatedAt,
+}: KeyRowProps) {
+  const [isValidating, setIsValidating] = useState(false);
+  const [validationResult, setValidationResult] = useState<'success' | 'error' | null>(null);
+  const [cooldownRemaining, setCooldownRemaining] = useState(0);
+
+  // Calculate cooldown remaining
+  useEffect(() => {
+    if (!lastValidatedAt) {
+      setCooldownRemaining(0);
+      return;
+    }
+
+    const updateCooldown = () => {
+      const elapsed = Date.now() - lastValidatedAt;
+      const remaining = Math.max(0, VALIDATION_COOLDOWN - elapsed);
+      setCooldownRemaining(remaining);
+    };
+
+    updateCooldown();
+    const interval = setInterval(updateCooldown, 1000);
+    return () => clearInterval(interval);
+  }, [lastValidatedAt]);
+
+  // Clear validation result after 3 seconds
+  useEffect(() => {
+    if (validationResult) {
+      const timeout = setTimeout(() => setValidationResult(null), 3000);
+      return () => clearTimeout(timeout);
+    }
+  }, [validationResult]);
+
+  const handleValidate = async () => {
+    if (isValidating || cooldownRemaining > 0) return;
+
+    setIsValidating(true);
+    setValidationResult(null);
+
+    try {
+      const success = await onValidate();
+      setValidationResult(success ? 'success' : 'error');
+    } catch {
+      setValidationResult('error');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const isOnCooldown = cooldownRemaining > 0;
+  const cooldownSeconds = Math.ceil(cooldownRemaining / 1000);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className={`obs-status-dot ${configuredKey.isValid ? 'success' : 'error'}`} />
+        <span className="text-sm" style={{ color: 'var(--text-primary)' }}>
+          {configuredKey.name}
+        </span>
+        {configuredKey.isDefault && canSetDefault && (
+          <span className="text-[10px] obs-etched" style={{ color: 'var(--brass)' }}>
+            Default
+          </span>
+        )}
+        <code
+          className="text-xs px-2 py-1 rounded"
+          style={{
+            background: 'var(--ink-deepest)',
+            color: 'var(--text-secondary)',
+          }}
+        >
+          {configuredKey.keyPreview}
+        </code>
+        <span
+          className="text-xs font-mono ml-auto"
+          style={{ color: 'var(--text-tertiary)' }}
+          title={`Added ${configuredKey.addedAt ? new Date(configuredKey.addedAt).toLocaleDateString() : 'unknown'}`}
+        >
+          ${configuredKey.spend.toFixed(3)} spent
+        </span>
+      </div>
+
+      {configuredKey.validationError && (
+        <p
+          className="text-xs truncate"
+          style={{ color: configuredKey.isValid ? 'var(--warning)' : 'var(--error)' }}
+          title={configuredKey.validationError}
+        >
+          {configuredKey.validationError}
+        </p>
+      )}
+
+      {/* Actions */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={handleValidate}
+          disabled={isValidating || isOnCooldown}
+          className="obs-button-ghost text-xs disabled:opacity-50 flex items-center gap-1.5"
+          style={{
+            color: validationResult === 'success'
+              ? 'var(--success)'
+              : validationResult === 'error'
+              ? 'var(--error)'
+              : undefined,
+          }}
+        >
+          {isValidating ? (
+            <>
+              <svg className="w-3 h-3 animate-spin" viewBox="0 0 24 24" fill="none">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="3" />
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+              </svg>
+              Validating
+            </>
+          ) : isOnCooldown ? (
+            `Wait ${cooldownSeconds}s`
+          ) : validationResult === 'success' ? (
+            <>
+              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+              Valid
+            </>
+          ) : validationResult === 'error' ? (
+            <>
+              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+              Failed
+            </>
+          ) : (
+            'Validate'
+          )}
+        </button>
+        {canSetDefault && !configuredKey.isDefault && (
+          <button onClick={onSetDefault} className="obs-button-ghost text-xs">
+            Make Default
+          </button>
+        )}
+        <button onClick={onRemove} className="obs-button-danger text-xs">
+          Remove
+        </button>
+      </div>
+    </div>
+  );
+}
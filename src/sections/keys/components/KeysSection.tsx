@@ -2,19 +2,51 @@ import { useState, useEffect } from 'react';
 import { ProviderCard } from './ProviderCard';
 import { AddKeyModal } from './AddKeyModal';
 import { EmptyState } from './EmptyState';
-import type { Provider, ConfiguredKey, KeyValidationResult } from '../../../lib/types';
+import { EndpointCard } from './EndpointCard';
+import { EndpointModal } from './EndpointModal';
+import { PricingModal } from './PricingModal';
+import { VaultPanel } from './VaultPanel';
+import { DEFAULT_RATE_LIMITS } from '../../../lib/providers';
+import type {
+  Provider,
+  ConfiguredKey,
+  CustomEndpoint,
+  KeyValidationResult,
+  Model,
+  PricingCatalog,
+  RateLimitSettings,
+  VaultState,
+} from '../../../lib/types';
 
 interface KeysSectionProps {
   providers: Provider[];
   configuredKeys: ConfiguredKey[];
-  onAddKey: (providerId: string, key: string) => Promise<boolean>;
-  onRemoveKey: (providerId: string) => void;
-  onValidateKey: (providerId: string) => Promise<boolean>;
+  onAddKey: (providerId: string, key: string, name: string) => Promise<boolean>;
+  onRemoveKey: (keyId: string) => Promise<void>;
+  onValidateKey: (keyId: string) => Promise<boolean>;
+  onSetDefaultKey: (providerId: string, keyId: string) => void;
   onValidateAll: () => Promise<void>;
   onValidateNewKey: (providerId: string, key: string) => Promise<KeyValidationResult>;
+  customEndpoints: CustomEndpoint[];
+  onSaveEndpoint: (endpoint: CustomEndpoint, key: string) => Promise<void>;
+  onRemoveEndpoint: (endpointId: string) => Promise<void>;
+  models: Model[]; // Every selectable model, including discovered ones
+  pricingOverrides: PricingCatalog;
+  onSavePricing: (overrides: PricingCatalog) => void;
+  rateLimits: Record<string, RateLimitSettings>; // Only providers the user has changed
+  onRateLimitsChange: (providerId: string, limits: RateLimitSettings) => void;
+  vaultState: VaultState;
+  autoLockMinutes?: number;
+  onAutoLockMinutesChange: (minutes: number) => void;
+  onCreateVault: (passphrase: string) => Promise<void>;
+  onUnlockVault: (passphrase: string) => Promise<void>;
+  onLockVault: () => void;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onResetVault: () => void;
 }
 
 const VALIDATE_ALL_COOLDOWN = 60000; // 60 seconds
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
 
 export function KeysSection({
   providers,
@@ -22,20 +54,44 @@ export function KeysSection({
   onAddKey,
   onRemoveKey,
   onValidateKey,
+  onSetDefaultKey,
   onValidateAll,
   onValidateNewKey,
+  customEndpoints,
+  onSaveEndpoint,
+  onRemoveEndpoint,
+  models,
+  pricingOverrides,
+  onSavePricing,
+  rateLimits,
+  onRateLimitsChange,
+  vaultState,
+  autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES,
+  onAutoLockMinutesChange,
+  onCreateVault,
+  onUnlockVault,
+  onLockVault,
+  onChangePassphrase,
+  onResetVault,
 }: KeysSectionProps) {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
-  const [validationTimestamps, setValidationTimestamps] = useState<Record<string, number>>({});
+  const [validationTimestamps, setValidationTimestamps] = useState<Record<string, number>>({}); // keyId -> time
   const [lastValidateAll, setLastValidateAll] = useState<number>(0);
   const [validateAllCooldown, setValidateAllCooldown] = useState(0);
   const [validateAllResult, setValidateAllResult] = useState<'success' | 'error' | null>(null);
+  const [isEndpointModalOpen, setIsEndpointModalOpen] = useState(false);
+  const [editingEndpoint, setEditingEndpoint] = useState<CustomEndpoint | null>(null);
+  const [isPricingModalOpen, setIsPricingModalOpen] = useState(false);
 
-  const configuredProviderIds = configuredKeys.map((k) => k.providerId);
+  // Custom endpoints get their own list below the built-in providers
+  const providerKeys = configuredKeys.filter((k) => providers.some((p) => p.id === k.providerId));
+  const configuredProviders = providers.filter(
+    (p) => providerKeys.some((k) => k.providerId === p.id)
+  );
   const unconfiguredProviders = providers.filter(
-    (p) => !configuredProviderIds.includes(p.id)
+    (p) => !configuredProviders.includes(p)
   );
 
   // Update validate all cooldown
@@ -69,11 +125,78 @@ export function KeysSection({
     setIsAddModalOpen(true);
   };
 
-  const handleValidateKey = async (providerId: string): Promise<boolean> => {
-    const result = await onValidateKey(providerId);
+  const handleEndpointClick = (endpoint: CustomEndpoint | null) => {
+    setEditingEndpoint(endpoint);
+    setIsEndpointModalOpen(true);
+  };
+
+  const endpointSection = (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="obs-etched">Custom Endpoints</p>
+        <button onClick={() => handleEndpointClick(null)} className="obs-button-ghost text-xs">
+          Add Endpoint
+        </button>
+      </div>
+      {customEndpoints.length > 0 ? (
+        <div className="space-y-3 stagger-children">
+          {customEndpoints.map((endpoint) => (
+            <EndpointCard
+              key={endpoint.id}
+              endpoint={endpoint}
+              hasKey={configuredKeys.some((k) => k.providerId === endpoint.id && k.keyPreview !== 'No key')}
+              onEdit={() => handleEndpointClick(endpoint)}
+              onRemove={() => onRemoveEndpoint(endpoint.id)}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+          Point at any OpenAI-compatible server, such as llama.cpp, vLLM or Ollama, to compare local models with hosted ones.
+        </p>
+      )}
+      {isEndpointModalOpen && (
+        <EndpointModal
+          key={editingEndpoint?.id ?? 'new'}
+          onClose={() => setIsEndpointModalOpen(false)}
+          endpoint={editingEndpoint}
+          onSubmit={onSaveEndpoint}
+        />
+      )}
+    </div>
+  );
+
+  const unpricedCount = models.filter((m) => m.pricingUnknown).length;
+
+  const pricingSection = (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="obs-etched">Model Pricing</p>
+        <button onClick={() => setIsPricingModalOpen(true)} className="obs-button-ghost text-xs">
+          Edit Prices
+        </button>
+      </div>
+      <p className="text-sm" style={{ color: unpricedCount > 0 ? 'var(--warning)' : 'var(--text-tertiary)' }}>
+        {unpricedCount > 0
+          ? `${unpricedCount} discovered model${unpricedCount === 1 ? ' has' : 's have'} no known price and will be counted as free.`
+          : 'Model lists are refreshed from each provider when its key is validated. Prices can be overridden here.'}
+      </p>
+      {isPricingModalOpen && (
+        <PricingModal
+          onClose={() => setIsPricingModalOpen(false)}
+          models={models}
+          overrides={pricingOverrides}
+          onSubmit={onSavePricing}
+        />
+      )}
+    </div>
+  );
+
+  const handleValidateKey = async (keyId: string): Promise<boolean> => {
+    const result = await onValidateKey(keyId);
     setValidationTimestamps(prev => ({
       ...prev,
-      [providerId]: Date.now(),
+      [keyId]: Date.now(),
     }));
     return result;
   };
@@ -90,7 +213,7 @@ export function KeysSection({
       const now = Date.now();
       const newTimestamps: Record<string, number> = {};
       configuredKeys.forEach(key => {
-        newTimestamps[key.providerId] = now;
+        if (key.keyId) newTimestamps[key.keyId] = now;
       });
       setValidationTimestamps(prev => ({ ...prev, ...newTimestamps }));
       setLastValidateAll(now);
@@ -102,14 +225,50 @@ export function KeysSection({
     }
   };
 
+  const vaultPanel = (
+    <VaultPanel
+      state={vaultState}
+      autoLockMinutes={autoLockMinutes}
+      onAutoLockMinutesChange={onAutoLockMinutesChange}
+      onCreate={onCreateVault}
+      onUnlock={onUnlockVault}
+      onLock={onLockVault}
+      onChangePassphrase={onChangePassphrase}
+      onReset={onResetVault}
+    />
+  );
+
+  // Keys can only be read or saved through an unlocked vault
+  if (vaultState !== 'unlocked') {
+    return (
+      <div className="space-y-8">
+        <div className="space-y-1">
+          <h1 className="font-display text-2xl" style={{ color: 'var(--text-primary)' }}>
+            API Keys
+          </h1>
+          <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+            Encrypted with your passphrase, stored locally in your browser
+          </p>
+        </div>
+        <div className="obs-rule" />
+        {vaultPanel}
+      </div>
+    );
+  }
+
   const isValidateAllOnCooldown = validateAllCooldown > 0;
   const validateAllCooldownSeconds = Math.ceil(validateAllCooldown / 1000);
   const hasConfiguredKeys = configuredKeys.length > 0;
 
-  if (configuredKeys.length === 0) {
+  if (providerKeys.length === 0) {
     return (
       <>
         <EmptyState providers={providers} onAddKey={handleAddClick} />
+        <div className="mt-12 space-y-8">
+          {vaultPanel}
+          {endpointSection}
+          {pricingSection}
+        </div>
         <AddKeyModal
           isOpen={isAddModalOpen}
           onClose={() => setIsAddModalOpen(false)}
@@ -131,7 +290,7 @@ export function KeysSection({
             API Keys
           </h1>
           <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
-            Stored locally in your browser
+            Encrypted with your passphrase, stored locally in your browser
           </p>
         </div>
         <button
@@ -183,25 +342,28 @@ export function KeysSection({
 
       <div className="obs-rule" />
 
+      {vaultPanel}
+
       {/* Configured Providers */}
       <div className="space-y-4">
         <p className="obs-etched">Configured</p>
         <div className="space-y-3 stagger-children">
-          {configuredKeys.map((key) => {
-            const provider = providers.find((p) => p.id === key.providerId);
-            if (!provider) return null;
-            return (
-              <ProviderCard
-                key={key.providerId}
-                provider={provider}
-                configuredKey={key}
-                onEdit={() => handleAddClick(key.providerId)}
-                onRemove={() => onRemoveKey(key.providerId)}
-                onValidate={() => handleValidateKey(key.providerId)}
-                lastValidatedAt={validationTimestamps[key.providerId]}
-              />
-            );
-          })}
+          {configuredProviders.map((provider) => (
+            <ProviderCard
+              key={provider.id}
+              provider={provider}
+              configuredKeys={providerKeys
+                .filter((k) => k.providerId === provider.id)
+                .sort((a, b) => Number(b.isDefault) - Number(a.isDefault))}
+              onAdd={() => handleAddClick(provider.id)}
+              onRemoveKey={onRemoveKey}
+              onValidateKey={handleValidateKey}
+              onSetDefaultKey={(keyId) => onSetDefaultKey(provider.id, keyId)}
+              validationTimestamps={validationTimestamps}
+              rateLimits={rateLimits[provider.id] ?? DEFAULT_RATE_LIMITS}
+              onRateLimitsChange={(limits) => onRateLimitsChange(provider.id, limits)}
+            />
+          ))}
         </div>
       </div>
 
@@ -221,6 +383,10 @@ export function KeysSection({
         </div>
       )}
 
+      {endpointSection}
+
+      {pricingSection}
+
       <AddKeyModal
         isOpen={isAddModalOpen}
         onClose={() => setIsAddModalOpen(false)}
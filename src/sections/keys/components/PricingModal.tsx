@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import type { Model, PricingCatalog } from '../../../lib/types';
+
+// Mounted only while open, so each opening starts from the saved overrides
+interface PricingModalProps {
+  onClose: () => void;
+  models: Model[];
+  overrides: PricingCatalog;
+  onSubmit: (overrides: PricingCatalog) => void;
+}
+
+// Prices are stored per 1k tokens but quoted per 1M everywhere else
+type DraftPrice = { input: string; output: string };
+
+const perMillion = (costPer1k: number): string => String(+(costPer1k * 1000).toFixed(4));
+
+const parsePrice = (text: string): number | null => {
+  const value = Number(text);
+  return text.trim() !== '' && Number.isFinite(value) && value >= 0 ? value / 1000 : null;
+};
+
+export function PricingModal({
+  onClose,
+  models,
+  overrides,
+  onSubmit,
+}: PricingModalProps) {
+  const [draft, setDraft] = useState<Record<string, DraftPrice>>(() =>
+    Object.fromEntries(Object.entries(overrides).map(([id, price]) => [
+      id,
+      { input: perMillion(price.inputCostPer1k), output: perMillion(price.outputCostPer1k) },
+    ]))
+  );
+  const [filter, setFilter] = useState('');
+
+  // Unpriced models first, since those are the ones that need attention
+  const rows = models
+    .filter(model => model.id.toLowerCase().includes(filter.trim().toLowerCase()))
+    .sort((a, b) => Number(!!b.pricingUnknown) - Number(!!a.pricingUnknown));
+
+  const updateDraft = (modelId: string, field: keyof DraftPrice, value: string) => {
+    const current = draft[modelId] ?? { input: '', output: '' };
+    setDraft({ ...draft, [modelId]: { ...current, [field]: value } });
+  };
+
+  const handleSubmit = () => {
+    // A row with either price left empty falls back to the catalog
+    const next: PricingCatalog = {};
+    Object.entries(draft).forEach(([id, price]) => {
+      const input = parsePrice(price.input);
+      const output = parsePrice(price.output);
+      if (input !== null && output !== null) {
+        next[id] = { inputCostPer1k: input, outputCostPer1k: output };
+      }
+    });
+    onSubmit(next);
+    onClose();
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 obs-backdrop z-50 animate-fade-in-up"
+        style={{ animationDuration: '0.2s' }}
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div
+          className="obs-modal w-full max-w-2xl p-6 animate-scale-in max-h-[90vh] flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div className="space-y-1">
+              <h2
+                className="font-display text-xl"
+                style={{ color: 'var(--text-primary)' }}
+              >
+                Model Pricing
+              </h2>
+              <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                Dollars per 1M tokens. Leave a row empty to use the built-in price.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-full flex items-center justify-center transition-all hover:scale-110"
+              style={{
+                background: 'var(--ink-deepest)',
+                color: 'var(--text-tertiary)',
+              }}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter models"
+            className="obs-input w-full px-4 py-2 mb-4 text-sm"
+          />
+
+          {/* Price table */}
+          <div className="flex-1 overflow-y-auto space-y-1.5 pr-1">
+            <div className="grid grid-cols-[1fr_6rem_6rem] gap-3 px-1 obs-etched">
+              <span>Model</span>
+              <span>Input</span>
+              <span>Output</span>
+            </div>
+            {rows.map(model => {
+              const price = draft[model.id] ?? { input: '', output: '' };
+              return (
+                <div key={model.id} className="grid grid-cols-[1fr_6rem_6rem] gap-3 items-center px-1">
+                  <div className="min-w-0">
+                    <p className="text-sm truncate" style={{ color: 'var(--text-secondary)' }}>
+                      {model.name}
+                    </p>
+                    {model.pricingUnknown && (
+                      <p className="text-[10px] font-mono" style={{ color: 'var(--warning)' }}>
+                        no known price
+                      </p>
+                    )}
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={price.input}
+                    placeholder={model.pricingUnknown ? '?' : perMillion(model.inputCostPer1k)}
+                    onChange={(e) => updateDraft(model.id, 'input', e.target.value)}
+                    className="obs-input w-full px-2 py-1 font-mono text-sm"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={price.output}
+                    placeholder={model.pricingUnknown ? '?' : perMillion(model.outputCostPer1k)}
+                    onChange={(e) => updateDraft(model.id, 'output', e.target.value)}
+                    className="obs-input w-full px-2 py-1 font-mono text-sm"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center gap-3 pt-5">
+            <button
+              onClick={() => setDraft({})}
+              className="obs-button-ghost text-xs"
+            >
+              Clear Overrides
+            </button>
+            <button
+              onClick={onClose}
+              className="obs-button-secondary flex-1 py-3"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              className="obs-button-primary flex-1 py-3"
+            >
+              Save Prices
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,83 +1,72 @@
-import { useState, useEffect } from 'react';
-import type { Provider, ConfiguredKey } from '../../../lib/types';
+import { useState } from 'react';
+import { KeyRow } from './KeyRow';
+import type { Provider, ConfiguredKey, RateLimitSettings } from '../../../lib/types';
 
 interface ProviderCardProps {
   provider: Provider;
-  configuredKey?: ConfiguredKey;
+  configuredKeys?: ConfiguredKey[]; // This provider's keys, default first
   onAdd?: () => void;
-  onEdit?: () => void;
-  onRemove?: () => void;
-  onValidate?: () => Promise<boolean>;
-  lastValidatedAt?: number; // timestamp of last validation
+  onRemoveKey?: (keyId: string) => void;
+  onValidateKey?: (keyId: string) => Promise<boolean>;
+  onSetDefaultKey?: (keyId: string) => void;
+  validationTimestamps?: Record<string, number>; // keyId -> timestamp of last validation
+  rateLimits?: RateLimitSettings;
+  onRateLimitsChange?: (limits: RateLimitSettings) => void;
 }
 
-const VALIDATION_COOLDOWN = 30000; // 30 seconds
+const LIMIT_FIELDS: ReadonlyArray<{ field: keyof RateLimitSettings; label: string }> = [
+  { field: 'requestsPerMinute', label: 'Requests / min' },
+  { field: 'tokensPerMinute', label: 'Tokens / min' },
+  { field: 'maxConcurrent', label: 'In flight' },
+];
 
 export function ProviderCard({
   provider,
-  configuredKey,
+  configuredKeys = [],
   onAdd,
-  onEdit,
-  onRemove,
-  onValidate,
-  lastValidatedAt,
+  onRemoveKey,
+  onValidateKey,
+  onSetDefaultKey,
+  validationTimestamps = {},
+  rateLimits,
+  onRateLimitsChange,
 }: ProviderCardProps) {
-  const isConfigured = !!configuredKey;
-  const [isValidating, setIsValidating] = useState(false);
-  const [validationResult, setValidationResult] = useState<'success' | 'error' | null>(null);
-  const [cooldownRemaining, setCooldownRemaining] = useState(0);
-
-  // Calculate cooldown remaining
-  useEffect(() => {
-    if (!lastValidatedAt) {
-      setCooldownRemaining(0);
+  const isConfigured = configuredKeys.length > 0;
+  const hasValidKey = configuredKeys.some(k => k.isValid);
+  // Draft values while the limits editor is open, null when closed
+  const [limitsDraft, setLimitsDraft] = useState<Record<keyof RateLimitSettings, string> | null>(null);
+
+  const toggleLimits = () => {
+    if (limitsDraft || !rateLimits) {
+      setLimitsDraft(null);
       return;
     }
+    setLimitsDraft({
+      requestsPerMinute: String(rateLimits.requestsPerMinute),
+      tokensPerMinute: String(rateLimits.tokensPerMinute),
+      maxConcurrent: String(rateLimits.maxConcurrent),
+    });
+  };
 
-    const updateCooldown = () => {
-      const elapsed = Date.now() - lastValidatedAt;
-      const remaining = Math.max(0, VALIDATION_COOLDOWN - elapsed);
-      setCooldownRemaining(remaining);
-    };
-
-    updateCooldown();
-    const interval = setInterval(updateCooldown, 1000);
-    return () => clearInterval(interval);
-  }, [lastValidatedAt]);
-
-  // Clear validation result after 3 seconds
-  useEffect(() => {
-    if (validationResult) {
-      const timeout = setTimeout(() => setValidationResult(null), 3000);
-      return () => clearTimeout(timeout);
-    }
-  }, [validationResult]);
-
-  const handleValidate = async () => {
-    if (!onValidate || isValidating || cooldownRemaining > 0) return;
-
-    setIsValidating(true);
-    setValidationResult(null);
-
-    try {
-      const success = await onValidate();
-      setValidationResult(success ? 'success' : 'error');
-    } catch {
-      setValidationResult('error');
-    } finally {
-      setIsValidating(false);
-    }
+  const parsedLimits = limitsDraft && {
+    requestsPerMinute: Number(limitsDraft.requestsPerMinute),
+    tokensPerMinute: Number(limitsDraft.tokensPerMinute),
+    maxConcurrent: Number(limitsDraft.maxConcurrent),
   };
+  const limitsValid = !!parsedLimits && Object.values(parsedLimits).every(v => Number.isFinite(v) && v >= 1);
 
-  const isOnCooldown = cooldownRemaining > 0;
-  const cooldownSeconds = Math.ceil(cooldownRemaining / 1000);
+  const saveLimits = () => {
+    if (!parsedLimits || !limitsValid || !onRateLimitsChange) return;
+    onRateLimitsChange({ ...parsedLimits, maxConcurrent: Math.floor(parsedLimits.maxConcurrent) });
+    setLimitsDraft(null);
+  };
 
   return (
     <div
       className="obs-card p-4 group"
       style={{
         borderColor: isConfigured
-          ? configuredKey.isValid
+          ? hasValidKey
             ? 'var(--ink-border)'
             : 'rgba(184, 92, 92, 0.3)'
           : 'var(--ink-border-subtle)',
@@ -112,7 +101,7 @@ export function ProviderCard({
             {isConfigured && (
               <div
                 className={`obs-status-dot ml-auto ${
-                  configuredKey.isValid ? 'success' : 'error'
+                  hasValidKey ? 'success' : 'error'
                 }`}
               />
             )}
@@ -120,76 +109,62 @@ export function ProviderCard({
 
           {/* Key info or models preview */}
           {isConfigured ? (
-            <div className="mt-2 space-y-2">
-              <div className="flex items-center gap-2">
-                <code
-                  className="text-xs px-2 py-1 rounded"
-                  style={{
-                    background: 'var(--ink-deepest)',
-                    color: 'var(--text-secondary)',
-                  }}
-                >
-                  {configuredKey.keyPreview}
-                </code>
-                {configuredKey.validationError && (
-                  <span
-                    className="text-xs truncate"
-                    style={{ color: 'var(--error)' }}
-                  >
-                    {configuredKey.validationError}
-                  </span>
-                )}
-              </div>
+            <div className="mt-2 space-y-3">
+              {configuredKeys.map((key) => key.keyId && (
+                <KeyRow
+                  key={key.keyId}
+                  configuredKey={key}
+                  canSetDefault={configuredKeys.length > 1}
+                  onSetDefault={() => onSetDefaultKey?.(key.keyId!)}
+                  onRemove={() => onRemoveKey?.(key.keyId!)}
+                  onValidate={() => onValidateKey?.(key.keyId!) ?? Promise.resolve(false)}
+                  lastValidatedAt={validationTimestamps[key.keyId]}
+                />
+              ))}
 
               {/* Actions */}
-              <div className="flex items-center gap-4">
-                <button onClick={onEdit} className="obs-button-ghost text-xs">
-                  Update
-                </button>
-                <button
-                  onClick={handleValidate}
-                  disabled={isValidating || isOnCooldown}
-                  className="obs-button-ghost text-xs disabled:opacity-50 flex items-center gap-1.5"
-                  style={{
-                    color: validationResult === 'success'
-                      ? 'var(--success)'
-                      : validationResult === 'error'
-                      ? 'var(--error)'
-                      : undefined,
-                  }}
-                >
-                  {isValidating ? (
-                    <>
-                      <svg className="w-3 h-3 animate-spin" viewBox="0 0 24 24" fill="none">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="3" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                      </svg>
-                      Validating
-                    </>
-                  ) : isOnCooldown ? (
-                    `Wait ${cooldownSeconds}s`
-                  ) : validationResult === 'success' ? (
-                    <>
-                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                      </svg>
-                      Valid
-                    </>
-                  ) : validationResult === 'error' ? (
-                    <>
-                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                      Failed
-                    </>
-                  ) : (
-                    'Validate'
-                  )}
-                </button>
-                <button onClick={onRemove} className="obs-button-danger text-xs">
-                  Remove
+              <div className="flex items-center gap-4 pt-1">
+                <button onClick={onAdd} className="obs-button-ghost text-xs">
+                  Add Another Key
                 </button>
+                {rateLimits && (
+                  <button onClick={toggleLimits} className="obs-button-ghost text-xs">
+                    Limits
+                  </button>
+                )}
               </div>
+
+              {/* Rate limits */}
+              {limitsDraft && (
+                <div className="pt-2 space-y-3 animate-fade-in-up">
+                  <div className="grid grid-cols-3 gap-3">
+                    {LIMIT_FIELDS.map(({ field, label }) => (
+                      <label key={field} className="space-y-1">
+                        <span className="text-[10px] obs-etched">{label}</span>
+                        <input
+                          type="number"
+                          min={1}
+                          value={limitsDraft[field]}
+                          onChange={(e) => setLimitsDraft({ ...limitsDraft, [field]: e.target.value })}
+                          className="obs-input w-full px-2 py-1 font-mono text-sm"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <button
+                      onClick={saveLimits}
+                      disabled={!limitsValid}
+                      className="obs-button-ghost text-xs disabled:opacity-50"
+                    >
+                      Save Limits
+                    </button>
+                    <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                      Applied from the next run; 429s pause {provider.name} automatically
+                    </span>
+                  </div>
+                </div>
+              )}
             </div>
           ) : (
             <div className="mt-2 flex items-center justify-between">
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import type { VaultState } from '../../../lib/types';
+
+interface VaultPanelProps {
+  state: VaultState;
+  autoLockMinutes: number;
+  onAutoLockMinutesChange: (minutes: number) => void;
+  onCreate: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onReset: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+const STATUS: Record<VaultState, { label: string; color: string }> = {
+  unset: { label: 'Not encrypted', color: 'var(--warning)' },
+  locked: { label: 'Locked', color: 'var(--text-tertiary)' },
+  unlocked: { label: 'Unlocked', color: 'var(--success)' },
+};
+
+export function VaultPanel({
+  state,
+  autoLockMinutes,
+  onAutoLockMinutesChange,
+  onCreate,
+  onUnlock,
+  onLock,
+  onChangePassphrase,
+  onReset,
+}: VaultPanelProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [current, setCurrent] = useState('');
+  const [isRotating, setIsRotating] = useState(false);
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setCurrent('');
+    setError(null);
+  };
+
+  // New passphrases are typed twice; unlocking only needs one
+  const newPassphraseError =
+    passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmation
+      ? 'Passphrases do not match'
+      : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      resetForm();
+      setIsRotating(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const passwordInput = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <input
+      type="password"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="obs-input w-full px-4 py-2 text-sm"
+      autoComplete="off"
+    />
+  );
+
+  const status = STATUS[state];
+
+  return (
+    <div className="obs-card p-4" style={{ borderColor: 'var(--ink-border)' }}>
+      <div className="relative z-10 space-y-4">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" style={{ color: status.color }}>
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d={state === 'unlocked'
+                  ? 'M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z'
+                  : 'M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z'}
+              />
+            </svg>
+            <span className="font-medium" style={{ color: 'var(--text-primary)' }}>
+              Key Vault
+            </span>
+            <span className="text-xs font-mono" style={{ color: status.color }}>
+              {status.label}
+            </span>
+          </div>
+          {state === 'unlocked' && (
+            <button onClick={onLock} className="obs-button-secondary px-4 py-1.5 text-sm">
+              Lock Now
+            </button>
+          )}
+        </div>
+
+        {/* First run: choose a passphrase */}
+        {state === 'unset' && (
+          <div className="space-y-3">
+            <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+              Choose a passphrase to encrypt your API keys in this browser. Keys saved earlier are moved into the vault.
+              The passphrase can't be recovered.
+            </p>
+            {passwordInput(passphrase, setPassphrase, 'Passphrase')}
+            {passwordInput(confirmation, setConfirmation, 'Repeat passphrase')}
+            <button
+              onClick={() => run(() => onCreate(passphrase))}
+              disabled={isBusy || newPassphraseError !== null}
+              className="obs-button-primary w-full py-2 disabled:opacity-50"
+            >
+              {isBusy ? 'Encrypting...' : 'Create Vault'}
+            </button>
+            {passphrase && newPassphraseError && (
+              <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>{newPassphraseError}</p>
+            )}
+          </div>
+        )}
+
+        {/* Locked: unlock or start over */}
+        {state === 'locked' && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              run(() => onUnlock(passphrase));
+            }}
+          >
+            <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+              Enter your passphrase to use your saved keys. Experiments can't start while the vault is locked.
+            </p>
+            {passwordInput(passphrase, setPassphrase, 'Passphrase')}
+            <button
+              type="submit"
+              disabled={isBusy || !passphrase}
+              className="obs-button-primary w-full py-2 disabled:opacity-50"
+            >
+              {isBusy ? 'Unlocking...' : 'Unlock'}
+            </button>
+            {isConfirmingReset ? (
+              <div className="flex items-center gap-4">
+                <span className="text-xs" style={{ color: 'var(--error)' }}>
+                  Delete the vault and every key in it?
+                </span>
+                <button type="button" onClick={onReset} className="obs-button-danger text-xs">
+                  Delete
+                </button>
+                <button type="button" onClick={() => setIsConfirmingReset(false)} className="obs-button-ghost text-xs">
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button type="button" onClick={() => setIsConfirmingReset(true)} className="obs-button-ghost text-xs">
+                Forgot passphrase?
+              </button>
+            )}
+          </form>
+        )}
+
+        {/* Unlocked: auto-lock and rotation */}
+        {state === 'unlocked' && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <span className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+                Locks after
+              </span>
+              <select
+                value={autoLockMinutes}
+                onChange={(e) => onAutoLockMinutesChange(Number(e.target.value))}
+                className="obs-input px-2 py-1 text-sm"
+              >
+                {AUTO_LOCK_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} min</option>
+                ))}
+              </select>
+              <span className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+                idle
+              </span>
+              {!isRotating && (
+                <button onClick={() => setIsRotating(true)} className="obs-button-ghost text-xs ml-auto">
+                  Change Passphrase
+                </button>
+              )}
+            </div>
+            {isRotating && (
+              <div className="space-y-3">
+                {passwordInput(current, setCurrent, 'Current passphrase')}
+                {passwordInput(passphrase, setPassphrase, 'New passphrase')}
+                {passwordInput(confirmation, setConfirmation, 'Repeat new passphrase')}
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => {
+                      resetForm();
+                      setIsRotating(false);
+                    }}
+                    className="obs-button-secondary flex-1 py-2"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => run(() => onChangePassphrase(current, passphrase))}
+                    disabled={isBusy || !current || newPassphraseError !== null}
+                    className="obs-button-primary flex-1 py-2 disabled:opacity-50"
+                  >
+                    {isBusy ? 'Re-encrypting...' : 'Change'}
+                  </button>
+                </div>
+                {passphrase && newPassphraseError && (
+                  <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>{newPassphraseError}</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm" style={{ color: 'var(--error)' }}>{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,9 @@
 export { KeysSection } from './KeysSection';
 export { ProviderCard } from './ProviderCard';
+export { KeyRow } from './KeyRow';
 export { AddKeyModal } from './AddKeyModal';
 export { EmptyState } from './EmptyState';
+export { EndpointCard } from './EndpointCard';
+export { EndpointModal } from './EndpointModal';
+export { PricingModal } from './PricingModal';
+export { VaultPanel } from './VaultPanel';